@@ -0,0 +1,9 @@
+/**
+ * Badge for the status of an upload job
+ */
+export function JobStatusBadge({ status }: { status: string }) {
+  if (status === "completed") return <s-badge tone="success">Completed</s-badge>;
+  if (status === "failed") return <s-badge tone="critical">Failed</s-badge>;
+  if (status === "staging") return <s-badge>Sending files</s-badge>;
+  return <s-badge tone="info">In progress</s-badge>;
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_PRODUCT_SCOPE, PRODUCT_SCOPE_STATUSES } from "../lib/scope";
+import type { ProductScope, ProductScopeStatus, ScopeCollection } from "../lib/scope";
+
+interface ProductScopeSectionProps {
+  scope: ProductScope;
+  collections: ScopeCollection[];
+  onApply: (scope: ProductScope) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The form choosing which products a page works on
+ * Edits stay a draft until applied, so the page's products only reload once.
+ */
+export function ProductScopeSection({
+  scope,
+  collections,
+  onApply,
+  disabled = false,
+}: ProductScopeSectionProps) {
+  const [draft, setDraft] = useState<ProductScope>(scope);
+
+  // Keep the form in sync when the URL changes (e.g. back/forward navigation); loader
+  // revalidations return an equal scope and must not throw away unsaved edits
+  const scopeKey = JSON.stringify(scope);
+  useEffect(() => {
+    setDraft(JSON.parse(scopeKey));
+  }, [scopeKey]);
+
+  const handleChange = (key: keyof ProductScope, value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <s-section heading="Products">
+      <s-stack direction="block" gap="base">
+        <s-grid gridTemplateColumns="repeat(3, 1fr)" gap="base">
+          <s-select
+            label="Status"
+            value={draft.status}
+            onChange={(e) => handleChange("status", e.currentTarget.value as ProductScopeStatus)}
+          >
+            {PRODUCT_SCOPE_STATUSES.map((status) => (
+              <s-option key={status.value} value={status.value}>
+                {status.label}
+              </s-option>
+            ))}
+          </s-select>
+          <s-text-field
+            label="Vendor"
+            value={draft.vendor}
+            onChange={(e) => handleChange("vendor", e.currentTarget.value)}
+          />
+          <s-text-field
+            label="Product type"
+            value={draft.productType}
+            onChange={(e) => handleChange("productType", e.currentTarget.value)}
+          />
+          <s-text-field
+            label="Tag"
+            value={draft.tag}
+            onChange={(e) => handleChange("tag", e.currentTarget.value)}
+          />
+          <s-select
+            label="Collection"
+            value={draft.collectionId}
+            onChange={(e) => handleChange("collectionId", e.currentTarget.value)}
+          >
+            <s-option value="">Any collection</s-option>
+            {collections.map((collection) => (
+              <s-option key={collection.id} value={collection.id}>
+                {collection.title}
+              </s-option>
+            ))}
+          </s-select>
+          <s-stack direction="inline" gap="base">
+            <s-date-field
+              label="Created after"
+              value={draft.createdAfter}
+              onChange={(e) => handleChange("createdAfter", e.currentTarget.value)}
+            />
+            <s-date-field
+              label="Created before"
+              value={draft.createdBefore}
+              onChange={(e) => handleChange("createdBefore", e.currentTarget.value)}
+            />
+          </s-stack>
+        </s-grid>
+        <s-stack direction="inline" gap="base">
+          <s-button variant="secondary" disabled={disabled} onClick={() => onApply(draft)}>
+            Apply
+          </s-button>
+          <s-button
+            variant="tertiary"
+            disabled={disabled}
+            onClick={() => onApply(DEFAULT_PRODUCT_SCOPE)}
+          >
+            Reset
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-section>
+  );
+}
@@ -5,9 +5,13 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startUploadWorker } from "./lib/worker.server";
 
 export const streamTimeout = 5000;
 
+// Resume background upload jobs left unfinished by a previous server process
+startUploadWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
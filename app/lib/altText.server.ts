@@ -0,0 +1,75 @@
+/**
+ * Alt Text Re-apply
+ * Rewrites the alt text of images already on products from the shop's saved templates.
+ */
+
+import { getAltTextTemplates } from "../models/AltTextTemplate.server";
+import { buildAltTextContext, renderAltTexts } from "./altText";
+import { DEFAULT_UPLOAD_CONCURRENCY, runGroupedConcurrently } from "./pool";
+import { getProductMediaAlt, updateMediaAlt } from "./upload.server";
+import type { AdminGraphql } from "./upload.server";
+
+export interface AltTextResult {
+  productId: string;
+  title: string | null;
+  updated: number;
+  error?: string;
+}
+
+/**
+ * Apply the alt text templates to every image of the given products, a few products at a time
+ * `{position}` is the image's place in the gallery; `{variant}` is left empty, and `{filename}`
+ * is the product handle, since neither is known for existing images.
+ */
+export async function applyAltTextTemplates(
+  admin: AdminGraphql,
+  shop: string,
+  productIds: string[],
+  onlyMissing: boolean,
+): Promise<AltTextResult[]> {
+  const templates = await getAltTextTemplates(shop);
+  const results: AltTextResult[] = [];
+
+  const applyToProduct = async (productId: string) => {
+    try {
+      const details = await getProductMediaAlt(admin, shop, productId);
+      if (!details) {
+        results.push({ productId, title: null, updated: 0, error: "Product not found" });
+        return;
+      }
+
+      const updates = details.media
+        .map((media, index) => ({
+          media,
+          ...renderAltTexts(
+            templates,
+            buildAltTextContext(details.product, [], index + 1, details.product.handle),
+          ),
+        }))
+        .filter(({ media }) => !onlyMissing || !media.alt)
+        .map(({ media, alt, translations }) => ({ mediaId: media.id, alt, translations }));
+
+      results.push({
+        productId,
+        title: details.product.title,
+        ...(await updateMediaAlt(admin, shop, updates)),
+      });
+    } catch (error) {
+      console.error("Alt text error:", error);
+      results.push({
+        productId,
+        title: null,
+        updated: 0,
+        error: error instanceof Error ? error.message : "Could not update alt text",
+      });
+    }
+  };
+
+  await runGroupedConcurrently(
+    productIds,
+    (productId) => productId,
+    DEFAULT_UPLOAD_CONCURRENCY,
+    applyToProduct,
+  );
+  return results;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildAltTextContext, renderAltText, renderAltTexts, MAX_ALT_TEXT_LENGTH } from './altText';
+
+const context = buildAltTextContext(
+  { title: 'Blue Widget', handle: 'blue-widget', vendor: 'Acme', productType: '' },
+  [{ title: 'Red / S' }, { title: 'Red / M' }],
+  2,
+  'photos/blue-widget-front.jpg'
+);
+
+describe('renderAltText', () => {
+  it('fills in the tokens', () => {
+    expect(renderAltText('{title} by {vendor}, {variant} ({position})', context)).toBe(
+      'Blue Widget by Acme, Red / S, Red / M (2)'
+    );
+    expect(renderAltText('{filename}', context)).toBe('blue-widget-front');
+  });
+
+  it('drops separators left by empty tokens', () => {
+    expect(renderAltText('{productType} – {title} | {productType}', context)).toBe('Blue Widget');
+    expect(renderAltText('{title} - {productType} - {vendor}', context)).toBe('Blue Widget - Acme');
+  });
+
+  it('keeps unknown tokens as written', () => {
+    expect(renderAltText('{title} {colour} {constructor}', context)).toBe(
+      'Blue Widget {colour} {constructor}'
+    );
+  });
+
+  it('falls back to the file name and caps the length', () => {
+    expect(renderAltText('{productType}', context)).toBe('blue-widget-front');
+    expect(renderAltText('x'.repeat(600), context)).toHaveLength(MAX_ALT_TEXT_LENGTH);
+  });
+});
+
+describe('renderAltTexts', () => {
+  it('renders the primary text and a translation per non-empty template', () => {
+    expect(renderAltTexts({ '': '', fr: '{title} ({variant})', de: ' ' }, context)).toEqual({
+      alt: 'Blue Widget',
+      translations: { fr: 'Blue Widget (Red / S, Red / M)' },
+    });
+  });
+});
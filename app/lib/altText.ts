@@ -0,0 +1,112 @@
+/**
+ * Alt Text Templates
+ * Builds image alt text from a template with product tokens, e.g. `{title} – {variant}`.
+ * Templates are saved per shop, with an optional template for each additional shop language.
+ */
+
+import type { ShopifyProduct, ShopifyVariant } from './types';
+
+export const ALT_TEXT_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{title}', description: 'Product title' },
+  { token: '{vendor}', description: 'Product vendor' },
+  { token: '{productType}', description: 'Product type' },
+  { token: '{variant}', description: 'Variants the image is attached to' },
+  { token: '{position}', description: "Image's position in the gallery" },
+  { token: '{handle}', description: 'Product handle' },
+  { token: '{filename}', description: 'File name without its extension' },
+];
+
+export const DEFAULT_ALT_TEXT_TEMPLATE = '{title}';
+
+// Shopify rejects longer alt text
+export const MAX_ALT_TEXT_LENGTH = 512;
+
+/**
+ * Template for the shop's primary language, under the locale key ''
+ */
+export const PRIMARY_LOCALE_KEY = '';
+
+export interface AltTextContext {
+  title: string;
+  vendor: string;
+  productType: string;
+  variant: string;
+  position: number | null;
+  handle: string;
+  filename: string;
+}
+
+/**
+ * Gather the token values for one image
+ */
+export function buildAltTextContext(
+  product: Pick<ShopifyProduct, 'title' | 'handle' | 'vendor' | 'productType'>,
+  variants: Array<Pick<ShopifyVariant, 'title'>>,
+  position: number | null,
+  filename: string
+): AltTextContext {
+  return {
+    title: product.title,
+    vendor: product.vendor ?? '',
+    productType: product.productType ?? '',
+    variant: variants.map((v) => v.title).join(', '),
+    position,
+    handle: product.handle,
+    filename: (filename.split('/').pop() ?? filename).replace(/\.[^.]+$/, ''),
+  };
+}
+
+// Separators left dangling when the token next to them is empty
+const SEPARATOR = '[-–—|,:·/]';
+const LEADING_SEPARATORS = new RegExp(`^(\\s*${SEPARATOR})+\\s*`);
+const TRAILING_SEPARATORS = new RegExp(`(\\s*${SEPARATOR})+\\s*$`);
+const REPEATED_SEPARATORS = new RegExp(`(\\s*${SEPARATOR})(\\s*${SEPARATOR})+`, 'g');
+
+/**
+ * Fill in a template's tokens
+ * Unknown tokens are kept as written. An empty result falls back to the file name.
+ */
+export function renderAltText(template: string, context: AltTextContext): string {
+  const values: Record<string, string> = {
+    title: context.title,
+    vendor: context.vendor,
+    productType: context.productType,
+    variant: context.variant,
+    position: context.position === null ? '' : String(context.position),
+    handle: context.handle,
+    filename: context.filename,
+  };
+
+  const text = template
+    .replace(/\{(\w+)\}/g, (token, name: string) =>
+      Object.hasOwn(values, name) ? values[name] : token
+    )
+    .replace(REPEATED_SEPARATORS, '$1')
+    .replace(LEADING_SEPARATORS, '')
+    .replace(TRAILING_SEPARATORS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return (text || context.filename).slice(0, MAX_ALT_TEXT_LENGTH);
+}
+
+/**
+ * Render the alt text for every language with a template
+ * Returns the primary text and the translations keyed by locale.
+ */
+export function renderAltTexts(
+  templates: Record<string, string>,
+  context: AltTextContext
+): { alt: string; translations: Record<string, string> } {
+  const translations: Record<string, string> = {};
+  for (const [locale, template] of Object.entries(templates)) {
+    if (locale !== PRIMARY_LOCALE_KEY && template.trim()) {
+      translations[locale] = renderAltText(template, context);
+    }
+  }
+
+  return {
+    alt: renderAltText(templates[PRIMARY_LOCALE_KEY] || DEFAULT_ALT_TEXT_TEMPLATE, context),
+    translations,
+  };
+}
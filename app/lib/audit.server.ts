@@ -0,0 +1,105 @@
+/**
+ * Catalog Audit Queries
+ * Reads the products in scope with what the audit checks, for a page of the report or for an
+ * export of the whole scope.
+ */
+
+import type { AuditProduct } from "./audit";
+import { withRetries } from "./upload.server";
+import type { AdminGraphql } from "./upload.server";
+
+// GraphQL query to fetch the products in scope with what the audit checks
+// Alt text is checked on the first 20 media only, which keeps the query under the cost limit
+const GET_AUDIT_PRODUCTS = `#graphql
+  query GetAuditProducts($cursor: String, $query: String) {
+    products(first: 25, after: $cursor, query: $query, sortKey: TITLE) {
+      nodes {
+        id
+        title
+        handle
+        status
+        vendor
+        productType
+        featuredImage {
+          url
+        }
+        mediaCount {
+          count
+        }
+        media(first: 20) {
+          nodes {
+            alt
+            mediaContentType
+          }
+        }
+        variants(first: 5) {
+          nodes {
+            sku
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+interface AuditProductNode {
+  id: string;
+  title: string;
+  handle: string;
+  status: string;
+  vendor: string;
+  productType: string;
+  featuredImage: { url: string } | null;
+  mediaCount: { count: number } | null;
+  media: { nodes: Array<{ alt: string | null; mediaContentType: string }> };
+  variants: { nodes: Array<{ sku: string | null }> };
+}
+
+/**
+ * Read the products matching `query` from `after`, at most `maxPages` query pages of 25
+ * Returns the cursor to continue from, or null once every product in scope was read. Each page
+ * waits for cost budget and is retried when throttled, so a long export keeps going.
+ */
+export async function getAuditProducts(
+  admin: AdminGraphql,
+  shop: string,
+  query: string,
+  after: string | null,
+  maxPages = Infinity,
+): Promise<{ products: AuditProduct[]; nextCursor: string | null }> {
+  const graphql = withRetries(admin, shop);
+  const products: AuditProduct[] = [];
+  let hasNextPage = true;
+  let cursor = after;
+
+  for (let page = 0; hasNextPage && page < maxPages; page++) {
+    const response = await graphql(GET_AUDIT_PRODUCTS, { variables: { cursor, query } });
+    const { data } = await response.json();
+
+    for (const node of data.products.nodes as AuditProductNode[]) {
+      products.push({
+        id: node.id,
+        title: node.title,
+        handle: node.handle,
+        status: node.status,
+        vendor: node.vendor,
+        productType: node.productType,
+        skus: node.variants.nodes.map((v) => v.sku ?? "").filter(Boolean),
+        featuredImageUrl: node.featuredImage?.url ?? null,
+        mediaCount: node.mediaCount?.count ?? node.media.nodes.length,
+        imagesWithoutAlt: node.media.nodes.filter(
+          (m) => m.mediaContentType === "IMAGE" && !m.alt?.trim(),
+        ).length,
+      });
+    }
+
+    hasNextPage = data.products.pageInfo.hasNextPage;
+    cursor = data.products.pageInfo.endCursor;
+  }
+
+  return { products, nextCursor: hasNextPage ? cursor : null };
+}
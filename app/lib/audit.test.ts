@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyAuditView,
+  buildAuditCsv,
+  parseAuditView,
+  selectAuditRows,
+  DEFAULT_AUDIT_VIEW,
+} from './audit';
+import { parseCsv } from './manifest';
+import type { AuditProduct, AuditView } from './audit';
+
+function product(handle: string, mediaCount: number, imagesWithoutAlt = 0): AuditProduct {
+  return {
+    id: `gid://shopify/Product/${handle}`,
+    title: handle.replace(/-/g, ' '),
+    handle,
+    status: 'DRAFT',
+    vendor: 'Acme',
+    productType: 'Widget',
+    skus: [`${handle.toUpperCase()}-1`],
+    featuredImageUrl: null,
+    mediaCount,
+    imagesWithoutAlt,
+  };
+}
+
+const products = [
+  product('blue-widget', 0),
+  product('red-widget', 1, 1),
+  product('green-widget', 2),
+  product('complete-widget', 5),
+];
+
+describe('selectAuditRows', () => {
+  it('lists products with any issue, fewest images first', () => {
+    const rows = selectAuditRows(products, DEFAULT_AUDIT_VIEW);
+    expect(rows.map((row) => [row.product.handle, row.issues])).toEqual([
+      ['blue-widget', ['no-media']],
+      ['red-widget', ['few-images', 'missing-alt']],
+      ['green-widget', ['few-images']],
+    ]);
+  });
+
+  it('filters by issue, searches and sorts', () => {
+    const view = { ...DEFAULT_AUDIT_VIEW, issue: 'few-images' as const, descending: true };
+    expect(selectAuditRows(products, view).map((row) => row.product.handle)).toEqual([
+      'green-widget',
+      'red-widget',
+    ]);
+    expect(
+      selectAuditRows(products, { ...DEFAULT_AUDIT_VIEW, search: 'RED-WIDGET-1' }).map(
+        (row) => row.product.handle
+      )
+    ).toEqual(['red-widget']);
+  });
+});
+
+describe('parseAuditView', () => {
+  it('reads back what applyAuditView wrote', () => {
+    const view: AuditView = {
+      issue: 'missing-alt',
+      minImages: 0,
+      search: 'blue',
+      sort: 'title',
+      descending: true,
+    };
+    expect(parseAuditView(applyAuditView(new URLSearchParams('host=abc'), view))).toEqual(view);
+  });
+
+  it('falls back to the default view for invalid values', () => {
+    const params = new URLSearchParams('issue=constructor&min_images=-1&sort=price:desc');
+    expect(parseAuditView(params)).toEqual(DEFAULT_AUDIT_VIEW);
+    expect(parseAuditView(new URLSearchParams())).toEqual(DEFAULT_AUDIT_VIEW);
+  });
+});
+
+describe('buildAuditCsv', () => {
+  it('writes a row per product with the filenames its missing images should have', () => {
+    const rows = parseCsv(buildAuditCsv([product('blue-widget', 0), product('red-widget', 1, 1)], 3));
+    expect(rows[0]).toEqual([
+      'Handle',
+      'Title',
+      'SKUs',
+      'Vendor',
+      'Product type',
+      'Status',
+      'Current images',
+      'Images needed',
+      'Images without alt text',
+      'Issues',
+      'Suggested filenames',
+    ]);
+    expect(rows.slice(1)).toEqual([
+      [
+        'blue-widget',
+        'blue widget',
+        'BLUE-WIDGET-1',
+        'Acme',
+        'Widget',
+        'draft',
+        '0',
+        '3',
+        '0',
+        'No images',
+        'blue-widget-1.jpg blue-widget-2.jpg blue-widget-3.jpg',
+      ],
+      [
+        'red-widget',
+        'red widget',
+        'RED-WIDGET-1',
+        'Acme',
+        'Widget',
+        'draft',
+        '1',
+        '2',
+        '1',
+        'Too few images; Missing alt text',
+        'red-widget-2.jpg red-widget-3.jpg',
+      ],
+    ]);
+  });
+
+  it('suggests one image for products without any when the minimum is off', () => {
+    const [, row] = parseCsv(buildAuditCsv([product('blue-widget', 0)], 0));
+    expect(row.slice(-2)).toEqual(['No images', 'blue-widget-1.jpg']);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Catalog Audit
+ * Finds products that still need images or alt text, and exports them as a shot list with the
+ * filenames the uploader will match back to each product.
+ */
+
+import { formatCsv } from './manifest';
+
+export type AuditIssue = 'no-media' | 'few-images' | 'missing-alt';
+
+export const AUDIT_ISSUES: Record<AuditIssue, string> = {
+  'no-media': 'No images',
+  'few-images': 'Too few images',
+  'missing-alt': 'Missing alt text',
+};
+
+export type AuditSort = 'title' | 'images' | 'missing-alt' | 'status';
+
+export const AUDIT_SORTS: Array<{ value: AuditSort; label: string }> = [
+  { value: 'images', label: 'Images' },
+  { value: 'missing-alt', label: 'Images without alt text' },
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+];
+
+export const DEFAULT_MIN_IMAGES = 3;
+
+export interface AuditProduct {
+  id: string;
+  title: string;
+  handle: string;
+  status: string;
+  vendor: string;
+  productType: string;
+  skus: string[];
+  featuredImageUrl: string | null;
+  mediaCount: number;
+  imagesWithoutAlt: number;
+}
+
+/**
+ * List what a product is missing; `minImages` of 0 turns the image count check off
+ */
+export function findAuditIssues(product: AuditProduct, minImages: number): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  if (product.mediaCount === 0) {
+    issues.push('no-media');
+  } else if (product.mediaCount < minImages) {
+    issues.push('few-images');
+  }
+  if (product.imagesWithoutAlt > 0) {
+    issues.push('missing-alt');
+  }
+  return issues;
+}
+
+/**
+ * Keep products whose title, handle, vendor or SKUs contain the search text
+ */
+export function searchAuditProducts(products: AuditProduct[], search: string): AuditProduct[] {
+  const text = search.trim().toLowerCase();
+  if (!text) return products;
+  return products.filter((product) =>
+    [product.title, product.handle, product.vendor, ...product.skus].some((value) =>
+      value.toLowerCase().includes(text)
+    )
+  );
+}
+
+/**
+ * Sort products by a column; ties keep title order
+ */
+export function sortAuditProducts(
+  products: AuditProduct[],
+  sort: AuditSort,
+  descending = false
+): AuditProduct[] {
+  const compare = (a: AuditProduct, b: AuditProduct): number => {
+    if (sort === 'images') return a.mediaCount - b.mediaCount;
+    if (sort === 'missing-alt') return a.imagesWithoutAlt - b.imagesWithoutAlt;
+    if (sort === 'status') return a.status.localeCompare(b.status);
+    return 0;
+  };
+
+  return [...products].sort((a, b) => {
+    const order = compare(a, b) * (descending ? -1 : 1);
+    return order || a.title.localeCompare(b.title, undefined, { numeric: true });
+  });
+}
+
+/**
+ * Which products the report lists, and in what order
+ */
+export interface AuditView {
+  issue: AuditIssue | ''; // Empty for products with any issue
+  minImages: number;
+  search: string;
+  sort: AuditSort;
+  descending: boolean;
+}
+
+export const DEFAULT_AUDIT_VIEW: AuditView = {
+  issue: '',
+  minImages: DEFAULT_MIN_IMAGES,
+  search: '',
+  sort: 'images',
+  descending: false,
+};
+
+/**
+ * The products with issues, filtered, searched and sorted as the view asks, each with its issues
+ */
+export function selectAuditRows(
+  products: AuditProduct[],
+  view: AuditView
+): Array<{ product: AuditProduct; issues: AuditIssue[] }> {
+  const withIssues = products
+    .map((product) => ({ product, issues: findAuditIssues(product, view.minImages) }))
+    .filter(({ issues }) => (view.issue ? issues.includes(view.issue) : issues.length > 0));
+  const issuesById = new Map(withIssues.map((row) => [row.product.id, row.issues]));
+
+  return sortAuditProducts(
+    searchAuditProducts(
+      withIssues.map((row) => row.product),
+      view.search
+    ),
+    view.sort,
+    view.descending
+  ).map((product) => ({ product, issues: issuesById.get(product.id)! }));
+}
+
+/**
+ * Write the view into URL search parameters, e.g. for the export request
+ */
+export function applyAuditView(searchParams: URLSearchParams, view: AuditView): URLSearchParams {
+  const next = new URLSearchParams(searchParams);
+  next.set('issue', view.issue);
+  next.set('min_images', String(view.minImages));
+  next.set('search', view.search);
+  next.set('sort', `${view.sort}:${view.descending ? 'desc' : 'asc'}`);
+  return next;
+}
+
+/**
+ * Read the view from URL search parameters, falling back to the default for anything invalid
+ */
+export function parseAuditView(searchParams: URLSearchParams): AuditView {
+  const issue = searchParams.get('issue') ?? '';
+  const minImages = Number(searchParams.get('min_images'));
+  const [sort, direction] = (searchParams.get('sort') ?? '').split(':');
+  const isSort = AUDIT_SORTS.some((option) => option.value === sort);
+
+  return {
+    issue: Object.hasOwn(AUDIT_ISSUES, issue) ? (issue as AuditIssue) : DEFAULT_AUDIT_VIEW.issue,
+    minImages:
+      searchParams.has('min_images') && Number.isInteger(minImages) && minImages >= 0
+        ? minImages
+        : DEFAULT_AUDIT_VIEW.minImages,
+    search: searchParams.get('search') ?? '',
+    sort: isSort ? (sort as AuditSort) : DEFAULT_AUDIT_VIEW.sort,
+    descending: isSort ? direction === 'desc' : DEFAULT_AUDIT_VIEW.descending,
+  };
+}
+
+/**
+ * Filenames for the images a product still needs, numbered after its current images
+ * so they are matched back to the product and added in gallery order.
+ */
+export function suggestFilenames(product: AuditProduct, minImages: number): string[] {
+  const needed = Math.max(minImages, 1) - product.mediaCount;
+  return Array.from(
+    { length: Math.max(0, needed) },
+    (_, i) => `${product.handle}-${product.mediaCount + i + 1}.jpg`
+  );
+}
+
+/**
+ * Build the shot list CSV, one row per product
+ */
+export function buildAuditCsv(products: AuditProduct[], minImages: number): string {
+  const header = [
+    'Handle',
+    'Title',
+    'SKUs',
+    'Vendor',
+    'Product type',
+    'Status',
+    'Current images',
+    'Images needed',
+    'Images without alt text',
+    'Issues',
+    'Suggested filenames',
+  ];
+
+  const rows = products.map((product) => {
+    const filenames = suggestFilenames(product, minImages);
+    return [
+      product.handle,
+      product.title,
+      product.skus.join(' '),
+      product.vendor,
+      product.productType,
+      product.status.toLowerCase(),
+      String(product.mediaCount),
+      String(filenames.length),
+      String(product.imagesWithoutAlt),
+      findAuditIssues(product, minImages)
+        .map((issue) => AUDIT_ISSUES[issue])
+        .join('; '),
+      filenames.join(' '),
+    ];
+  });
+
+  return formatCsv([header, ...rows]);
+}
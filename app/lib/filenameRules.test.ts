@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFilenameRules,
+  explainFilenameRules,
+  parseFilenameRules,
+  validateCapturePattern,
+  DEFAULT_FILENAME_RULES,
+} from './filenameRules';
+import type { FilenameRules } from './filenameRules';
+
+const rules: FilenameRules = {
+  stripPrefixes: ['IMG_', 'DSC_'],
+  stripSuffixes: ['_web', '-final'],
+  separators: [{ from: '_', to: '-' }],
+  capturePattern: '',
+  lowercase: true,
+};
+
+describe('applyFilenameRules', () => {
+  it('lowercases by default', () => {
+    expect(applyFilenameRules('Blue-Widget', DEFAULT_FILENAME_RULES)).toBe('blue-widget');
+  });
+
+  it('strips prefixes and suffixes ignoring case, then maps separators', () => {
+    expect(applyFilenameRules('img_Blue_Widget_WEB', rules)).toBe('blue-widget');
+  });
+
+  it('never strips a whole name', () => {
+    expect(applyFilenameRules('IMG_', rules)).toBe('img-');
+  });
+
+  it('keeps the first capture group, or the whole match', () => {
+    expect(applyFilenameRules('0042-blue-widget', { ...rules, capturePattern: '^\\d+-(.+)$' })).toBe(
+      'blue-widget'
+    );
+    expect(applyFilenameRules('blue-widget copy', { ...rules, capturePattern: '^[a-z-]+' })).toBe(
+      'blue-widget'
+    );
+  });
+
+  it('leaves names the capture pattern does not match', () => {
+    expect(applyFilenameRules('blue-widget', { ...rules, capturePattern: '^\\d+-(.+)$' })).toBe(
+      'blue-widget'
+    );
+  });
+});
+
+describe('explainFilenameRules', () => {
+  it('lists only the steps that changed the name', () => {
+    expect(explainFilenameRules('IMG_blue_widget', rules)).toEqual([
+      { rule: 'Strip prefix "IMG_"', value: 'blue_widget' },
+      { rule: 'Replace "_" with "-"', value: 'blue-widget' },
+    ]);
+  });
+});
+
+describe('validateCapturePattern', () => {
+  it('accepts empty and valid patterns and explains invalid ones', () => {
+    expect(validateCapturePattern('')).toBeNull();
+    expect(validateCapturePattern('^(.+)$')).toBeNull();
+    expect(validateCapturePattern('(')).toEqual(expect.any(String));
+  });
+});
+
+describe('parseFilenameRules', () => {
+  it('falls back to the defaults', () => {
+    expect(parseFilenameRules(null)).toEqual(DEFAULT_FILENAME_RULES);
+  });
+
+  it('drops empty entries and an invalid capture pattern', () => {
+    expect(
+      parseFilenameRules({
+        stripPrefixes: ['IMG_', '', 3],
+        separators: [{ from: '', to: '-' }, { from: '_', to: '-' }],
+        capturePattern: '(',
+        lowercase: false,
+      })
+    ).toEqual({
+      stripPrefixes: ['IMG_'],
+      stripSuffixes: [],
+      separators: [{ from: '_', to: '-' }],
+      capturePattern: '',
+      lowercase: false,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Filename Normalization Rules
+ * Per-shop rules that clean up a filename before it is read as a product key, for suppliers and
+ * cameras with their own naming habits, e.g. `IMG_blue_widget_web.jpg`.
+ */
+
+export interface SeparatorMapping {
+  from: string;
+  to: string;
+}
+
+export interface FilenameRules {
+  stripPrefixes: string[]; // Removed from the start, ignoring case, e.g. `IMG_`
+  stripSuffixes: string[]; // Removed from the end, e.g. `_web`
+  separators: SeparatorMapping[]; // Replaced everywhere, e.g. `_` with `-`
+  capturePattern: string; // Regular expression; its first group (or whole match) is kept
+  lowercase: boolean;
+}
+
+export const DEFAULT_FILENAME_RULES: FilenameRules = {
+  stripPrefixes: [],
+  stripSuffixes: [],
+  separators: [],
+  capturePattern: '',
+  lowercase: true,
+};
+
+/**
+ * A step of the normalization, for showing how a filename resolves
+ */
+export interface NormalizationStep {
+  rule: string;
+  value: string;
+}
+
+/**
+ * Check that a capture pattern is a valid regular expression
+ * Returns the reason it isn't, or null.
+ */
+export function validateCapturePattern(pattern: string): string | null {
+  if (!pattern) return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+/**
+ * Read rules saved as JSON, filling in anything missing with the defaults
+ */
+export function parseFilenameRules(value: unknown): FilenameRules {
+  if (!value || typeof value !== 'object') return DEFAULT_FILENAME_RULES;
+  const rules = value as Partial<FilenameRules>;
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+
+  return {
+    stripPrefixes: strings(rules.stripPrefixes),
+    stripSuffixes: strings(rules.stripSuffixes),
+    separators: Array.isArray(rules.separators)
+      ? rules.separators.filter(
+          (s): s is SeparatorMapping =>
+            !!s && typeof s.from === 'string' && s.from !== '' && typeof s.to === 'string'
+        )
+      : [],
+    capturePattern:
+      typeof rules.capturePattern === 'string' && !validateCapturePattern(rules.capturePattern)
+        ? rules.capturePattern
+        : '',
+    lowercase: typeof rules.lowercase === 'boolean' ? rules.lowercase : true,
+  };
+}
+
+/**
+ * Apply the rules to a filename without its extension, listing every step that changed it
+ * Order: prefixes, suffixes, capture pattern, separators, then case.
+ */
+export function explainFilenameRules(name: string, rules: FilenameRules): NormalizationStep[] {
+  const steps: NormalizationStep[] = [];
+  let value = name;
+  const step = (rule: string, next: string) => {
+    if (next !== value) {
+      value = next;
+      steps.push({ rule, value });
+    }
+  };
+
+  for (const prefix of rules.stripPrefixes) {
+    if (value.toLowerCase().startsWith(prefix.toLowerCase()) && value.length > prefix.length) {
+      step(`Strip prefix "${prefix}"`, value.slice(prefix.length));
+    }
+  }
+  for (const suffix of rules.stripSuffixes) {
+    if (value.toLowerCase().endsWith(suffix.toLowerCase()) && value.length > suffix.length) {
+      step(`Strip suffix "${suffix}"`, value.slice(0, -suffix.length));
+    }
+  }
+
+  if (rules.capturePattern && !validateCapturePattern(rules.capturePattern)) {
+    const match = value.match(new RegExp(rules.capturePattern, 'i'));
+    const captured = match ? (match[1] ?? match[0]) : '';
+    if (captured) step(`Capture /${rules.capturePattern}/`, captured);
+  }
+
+  for (const { from, to } of rules.separators) {
+    step(`Replace "${from}" with "${to}"`, value.split(from).join(to));
+  }
+
+  if (rules.lowercase) {
+    step('Lowercase', value.toLowerCase());
+  }
+
+  return steps;
+}
+
+/**
+ * Apply the rules to a filename without its extension
+ */
+export function applyFilenameRules(name: string, rules: FilenameRules): string {
+  const steps = explainFilenameRules(name, rules);
+  return steps.length > 0 ? steps[steps.length - 1].value : name;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, Zip, ZipDeflate, zipSync } from 'fflate';
+import { extractZipEntries } from './files';
+
+const archive = (data: Uint8Array<ArrayBuffer>, path = 'delivery.zip') => ({
+  file: new File([data], path, { type: 'application/zip' }),
+  path,
+});
+
+/**
+ * Write an archive the way streaming tools do, without sizes in the entry headers
+ */
+function streamedZip(entries: Record<string, Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    const zip = new Zip((error, chunk, final) => {
+      if (error) return reject(error);
+      chunks.push(chunk);
+      if (final) resolve(new Uint8Array(Buffer.concat(chunks)));
+    });
+    for (const [name, data] of Object.entries(entries)) {
+      const file = new ZipDeflate(name);
+      zip.add(file);
+      file.push(data, true);
+    }
+    zip.end();
+  });
+}
+
+describe('extractZipEntries', () => {
+  it('extracts images and manifests under the archive path', async () => {
+    const data = new Uint8Array(zipSync({
+      'blue-widget/front.jpg': strToU8('front'),
+      'blue-widget/side.PNG': strToU8('side'),
+      'manifest.csv': strToU8('filename,handle'),
+      'notes.txt': strToU8('notes'),
+      '__MACOSX/blue-widget/._front.jpg': strToU8('metadata'),
+      '.DS_Store': strToU8('metadata'),
+    }));
+
+    const { files, errors } = await extractZipEntries(archive(data), 1024);
+    expect(errors).toEqual([]);
+    expect(files.map(({ path, file }) => [path, file.name, file.type])).toEqual([
+      ['delivery.zip/blue-widget/front.jpg', 'front.jpg', 'image/jpeg'],
+      ['delivery.zip/blue-widget/side.PNG', 'side.PNG', 'image/png'],
+      ['delivery.zip/manifest.csv', 'manifest.csv', ''],
+    ]);
+    expect(await files[0].file.text()).toBe('front');
+  });
+
+  it('skips entries over the size limit', async () => {
+    const data = new Uint8Array(zipSync({ 'small.jpg': new Uint8Array(10), 'large.jpg': new Uint8Array(3 * 1024 * 1024) }));
+
+    const { files, errors } = await extractZipEntries(archive(data), 1024 * 1024);
+    expect(files.map((f) => f.path)).toEqual(['delivery.zip/small.jpg']);
+    expect(errors).toEqual(['delivery.zip/large.jpg: File too large: 3.0MB']);
+  });
+
+  it('skips oversized entries of archives written as a stream', async () => {
+    const data = await streamedZip({
+      'large.jpg': new Uint8Array(3 * 1024 * 1024).fill(7),
+      'small.jpg': strToU8('small'),
+    });
+
+    const { files, errors } = await extractZipEntries(archive(data), 1024 * 1024);
+    expect(files.map((f) => f.path)).toEqual(['delivery.zip/small.jpg']);
+    expect(errors).toEqual(['delivery.zip/large.jpg: File too large: more than 1.0MB']);
+    expect(await files[0].file.text()).toBe('small');
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(extractZipEntries(archive(new TextEncoder().encode('not a zip')), 1024)).rejects.toThrow(
+      'Could not read delivery.zip: not a ZIP archive'
+    );
+  });
+});
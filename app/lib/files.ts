@@ -0,0 +1,246 @@
+/**
+ * Browser File Helpers
+ * Expands dropped folders and archives into individual files, keeping each file's relative path,
+ * fingerprints their contents and posts files straight to staged upload targets
+ */
+
+import { Unzip, UnzipInflate } from 'fflate';
+import { MANIFEST_EXTENSIONS } from './manifest';
+import type { StagedTarget } from './types';
+
+/**
+ * A file together with its path relative to the drop, e.g. `blue-widget/front.jpg`
+ */
+export interface SourceFile {
+  file: File;
+  path: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+/**
+ * Check whether a file is a ZIP archive
+ */
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+}
+
+/**
+ * Skip folders and the metadata macOS and Windows add to archives
+ */
+function isHiddenEntry(path: string): boolean {
+  return path.endsWith('/') || path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX') ||
+    /(^|\/)thumbs\.db$/i.test(path);
+}
+
+/**
+ * What was read from a ZIP archive, and the entries left out of it
+ */
+export interface ZipContents {
+  files: SourceFile[];
+  errors: string[]; // Entries skipped for being too large or unreadable
+}
+
+/**
+ * Extract the images and manifests in a ZIP archive, so a mapping can ship with its images
+ * The archive is streamed, and entries are inflated one at a time into files the browser can
+ * keep out of memory, so a delivery of thousands of images doesn't have to fit in the tab.
+ * Other entries are skipped without inflating them, and so are entries over `maxSize`. Paths
+ * start with the archive's own path, so two archives holding the same inner paths don't
+ * collide, and folder names inside survive for matching.
+ */
+export async function extractZipEntries(archive: SourceFile, maxSize: number): Promise<ZipContents> {
+  const files: SourceFile[] = [];
+  const errors: string[] = [];
+  const isWanted = (name: string) => {
+    const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+    return extension in MIME_TYPES || MANIFEST_EXTENSIONS.includes(extension);
+  };
+  const sizeInMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+  const unzipper = new Unzip((entry) => {
+    if (isHiddenEntry(entry.name) || !isWanted(entry.name)) return;
+    const path = `${archive.path}/${entry.name}`;
+    // Archives written as a stream only give the size once the entry has been read
+    if (entry.originalSize !== undefined && entry.originalSize > maxSize) {
+      errors.push(`${path}: File too large: ${sizeInMB(entry.originalSize)}MB`);
+      return;
+    }
+
+    const name = entry.name.split('/').pop() || entry.name;
+    const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+    let chunks: Uint8Array<ArrayBuffer>[] = [];
+    let size = 0;
+    let skipped = false;
+    const skip = (error: string) => {
+      skipped = true;
+      chunks = [];
+      errors.push(`${path}: ${error}`);
+    };
+
+    // Inflating can't be stopped part way, so the rest of a skipped entry is dropped as it comes
+    entry.ondata = (error, chunk, final) => {
+      if (skipped) return;
+      if (error) {
+        skip(error.message);
+        return;
+      }
+      size += chunk.length;
+      if (size > maxSize) {
+        skip(`File too large: more than ${sizeInMB(maxSize)}MB`);
+        return;
+      }
+      chunks.push(chunk as Uint8Array<ArrayBuffer>);
+      if (final) {
+        files.push({ file: new File(chunks, name, { type: MIME_TYPES[extension] || '' }), path });
+        chunks = [];
+      }
+    };
+
+    try {
+      entry.start();
+    } catch {
+      if (!skipped) skip('Unsupported compression method');
+    }
+  });
+  unzipper.register(UnzipInflate);
+
+  // The streaming reader skips over bytes it doesn't recognise, so check this is a ZIP at all
+  const signature = new Uint8Array(await archive.file.slice(0, 4).arrayBuffer());
+  const isZip = signature[0] === 0x50 && signature[1] === 0x4b && (signature[2] === 3 || signature[2] === 5);
+  if (!isZip) throw new Error(`Could not read ${archive.path}: not a ZIP archive`);
+
+  const reader = archive.file.stream().getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      unzipper.push(value ?? new Uint8Array(0), done);
+      if (done) break;
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw new Error(
+      `Could not read ${archive.path}: ${error instanceof Error ? error.message : 'invalid archive'}`
+    );
+  }
+
+  return { files, errors };
+}
+
+/**
+ * Wrap plain files, keeping the relative path a folder picker gives them
+ */
+export function toSourceFiles(files: FileList | File[]): SourceFile[] {
+  return Array.from(files).map((file) => ({
+    file,
+    path: file.webkitRelativePath || file.name,
+  }));
+}
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+/**
+ * Read every child of a directory
+ * `readEntries` returns results in chunks, so keep reading until it returns none.
+ */
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<SourceFile[]> {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (isHiddenEntry(path)) return [];
+
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    return [{ file, path }];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntryFiles));
+    return nested.flat();
+  }
+
+  return [];
+}
+
+/**
+ * Collect the files in a drop, walking into dropped folders recursively
+ * Must be called while the drop event is being handled; the items are emptied afterwards.
+ */
+export function readDroppedFiles(dataTransfer: DataTransfer): Promise<SourceFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+
+  // Browsers without the entry API only expose top-level files
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Promise.resolve(toSourceFiles(dataTransfer.files));
+  }
+
+  return Promise.all((entries as FileSystemEntry[]).map(collectEntryFiles)).then((nested) =>
+    nested.flat()
+  );
+}
+
+/**
+ * Post a file straight to a staged upload target, reporting the bytes sent so far
+ * Uses XMLHttpRequest because fetch has no upload progress events.
+ */
+export function uploadToStagedTarget(
+  target: StagedTarget,
+  file: File,
+  onProgress?: (bytesSent: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    for (const param of target.parameters) {
+      formData.append(param.name, param.value);
+    }
+    formData.append('file', file);
+
+    const request = new XMLHttpRequest();
+    request.open('POST', target.url);
+    request.upload.onprogress = (event) => {
+      // The request body also carries the form fields, so don't report more than the file
+      onProgress?.(Math.min(event.loaded, file.size));
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        onProgress?.(file.size);
+        resolve();
+      } else {
+        reject(new Error(`Direct upload failed: ${request.status}`));
+      }
+    };
+    request.onerror = () => reject(new Error('Direct upload failed: network error'));
+    request.onabort = () => reject(new Error('Direct upload was cancelled'));
+    request.send(formData);
+  });
+}
+
+/**
+ * Fingerprint a file's contents as a hex SHA-256 digest
+ * Files with the same bytes get the same hash whatever they are called.
+ */
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
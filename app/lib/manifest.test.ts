@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsv, parseCsv, parseManifestTable } from './manifest';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('filename,handle\nfront.jpg,blue-widget\n')).toEqual([
+      ['filename', 'handle'],
+      ['front.jpg', 'blue-widget'],
+    ]);
+  });
+
+  it('reads quoted cells with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, ""c""\nd"\r\ne,f')).toEqual([
+      ['a', 'b, "c"\nd'],
+      ['e', 'f'],
+    ]);
+  });
+
+  it('detects semicolon-separated exports', () => {
+    expect(parseCsv('filename;handle\nfront.jpg;blue-widget')).toEqual([
+      ['filename', 'handle'],
+      ['front.jpg', 'blue-widget'],
+    ]);
+  });
+
+  it('drops a byte order mark and blank rows', () => {
+    expect(parseCsv('﻿a,b\r\n\r\n,\r\nc,d')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('reads back what formatCsv writes', () => {
+    const rows = [
+      ['filename', 'alt'],
+      ['front.jpg', 'Blue, "large"'],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('parseManifestTable', () => {
+  it('maps header aliases to columns and reads each row', () => {
+    const manifest = parseManifestTable(
+      [
+        ['Image File', 'Product Handle', 'Alt Text', 'Gallery_Position', 'Variant SKU'],
+        ['front.jpg', 'blue-widget', 'Front view', '1', ''],
+        ['side.jpg', '', '', '', 'BW-RED-S'],
+      ],
+      'mapping.csv'
+    );
+
+    expect(manifest).toEqual({
+      source: 'mapping.csv',
+      errors: [],
+      rows: [
+        {
+          line: 2,
+          filename: 'front.jpg',
+          handle: 'blue-widget',
+          sku: '',
+          alt: 'Front view',
+          position: 1,
+          variant: '',
+        },
+        {
+          line: 3,
+          filename: 'side.jpg',
+          handle: '',
+          sku: 'BW-RED-S',
+          alt: '',
+          position: null,
+          variant: '',
+        },
+      ],
+    });
+  });
+
+  it('reports rows it cannot use, by sheet row number', () => {
+    const manifest = parseManifestTable(
+      [
+        ['filename', 'handle', 'position'],
+        ['', 'blue-widget', ''],
+        ['front.jpg', '', ''],
+        ['side.jpg', 'blue-widget', '0'],
+      ],
+      'mapping.csv'
+    );
+
+    expect(manifest.rows).toEqual([]);
+    expect(manifest.errors).toEqual([
+      'Row 2: missing filename',
+      'Row 3: front.jpg needs a handle or SKU',
+      'Row 4: position "0" is not a whole number from 1',
+    ]);
+  });
+
+  it('needs a filename column and a handle or SKU column', () => {
+    expect(parseManifestTable([['handle']], 'a.csv').errors).toEqual(['Missing a "filename" column']);
+    expect(parseManifestTable([['filename', 'alt']], 'a.csv').errors).toEqual([
+      'Missing a "handle" or "sku" column',
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Mapping Manifest
+ * Reads a CSV or XLSX sheet that maps image files to products, alt text and gallery positions.
+ * When a manifest lists an image, its row wins over the filename heuristics.
+ */
+
+export const MANIFEST_EXTENSIONS = ['.csv', '.xlsx'];
+
+export interface ManifestRow {
+  line: number; // Row number in the sheet, counting the header as row 1
+  filename: string;
+  handle: string;
+  sku: string;
+  alt: string;
+  position: number | null;
+  variant: string;
+}
+
+export interface Manifest {
+  source: string; // Name of the manifest file
+  rows: ManifestRow[];
+  errors: string[];
+}
+
+/**
+ * Accepted header names for each column, compared after lowercasing and dropping spaces
+ */
+const COLUMN_ALIASES: Record<Exclude<keyof ManifestRow, 'line'>, string[]> = {
+  filename: ['filename', 'file', 'image', 'imagefile', 'path'],
+  handle: ['handle', 'producthandle', 'product'],
+  sku: ['sku', 'variantsku'],
+  alt: ['alt', 'alttext', 'alternativetext'],
+  position: ['position', 'order', 'galleryposition'],
+  variant: ['variant', 'option', 'variantoption'],
+};
+
+/**
+ * Check whether a dropped file is a manifest rather than an image
+ */
+export function isManifestFile(file: { name: string }): boolean {
+  const name = file.name.toLowerCase();
+  return MANIFEST_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells, escaped quotes, CRLF line endings and semicolon-separated exports.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+/**
+ * Write rows of cells as CSV, quoting cells the way `parseCsv` reads them
+ * Starts with a byte order mark so spreadsheet apps read the file as UTF-8.
+ */
+export function formatCsv(rows: string[][]): string {
+  const quote = (cell: string) => (/[",;\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return '\uFEFF' + rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Turn a table with a header row into manifest rows
+ */
+export function parseManifestTable(table: string[][], source: string): Manifest {
+  const [header = [], ...body] = table;
+  const columns = new Map<keyof typeof COLUMN_ALIASES, number>();
+  header.forEach((title, index) => {
+    const normalized = title.toLowerCase().replace(/[\s_-]+/g, '');
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES)) {
+      if (aliases.includes(normalized) && !columns.has(column as keyof typeof COLUMN_ALIASES)) {
+        columns.set(column as keyof typeof COLUMN_ALIASES, index);
+      }
+    }
+  });
+
+  if (!columns.has('filename')) {
+    return { source, rows: [], errors: ['Missing a "filename" column'] };
+  }
+  if (!columns.has('handle') && !columns.has('sku')) {
+    return { source, rows: [], errors: ['Missing a "handle" or "sku" column'] };
+  }
+
+  const cell = (row: string[], column: keyof typeof COLUMN_ALIASES) => {
+    const index = columns.get(column);
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const rows: ManifestRow[] = [];
+  const errors: string[] = [];
+
+  body.forEach((row, index) => {
+    const line = index + 2;
+    const filename = cell(row, 'filename');
+    const handle = cell(row, 'handle');
+    const sku = cell(row, 'sku');
+    const positionText = cell(row, 'position');
+    const position = positionText ? Number(positionText) : null;
+
+    if (!filename) {
+      errors.push(`Row ${line}: missing filename`);
+      return;
+    }
+    if (!handle && !sku) {
+      errors.push(`Row ${line}: ${filename} needs a handle or SKU`);
+      return;
+    }
+    if (position !== null && (!Number.isInteger(position) || position < 1)) {
+      errors.push(`Row ${line}: position "${positionText}" is not a whole number from 1`);
+      return;
+    }
+
+    rows.push({
+      line,
+      filename,
+      handle,
+      sku,
+      alt: cell(row, 'alt'),
+      position,
+      variant: cell(row, 'variant'),
+    });
+  });
+
+  return { source, rows, errors };
+}
+
+/**
+ * Read a dropped CSV or XLSX manifest
+ */
+export async function readManifestFile(file: File): Promise<Manifest> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    // Loaded on demand so the spreadsheet reader stays out of the main bundle
+    const { readSheet } = await import('read-excel-file/browser');
+    const sheet = await readSheet(file);
+    const table = sheet.map((row) =>
+      row.map((value) => (value === null || value === undefined ? '' : String(value)))
+    );
+    return parseManifestTable(table, file.name);
+  }
+
+  return parseManifestTable(parseCsv(await file.text()), file.name);
+}
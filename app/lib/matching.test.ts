@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractHandleFromFilename,
+  findVariantsByTokens,
+  getHandleCandidates,
+  getParentFolder,
+  getVariantImages,
+  matchImagesToProducts,
+  splitPositionSuffix,
+  suggestProducts,
+  DEFAULT_STRATEGY_ORDER,
+} from './matching';
+import { DEFAULT_FILENAME_RULES } from './filenameRules';
+import type { ImageFile, ShopifyProduct } from './types';
+
+function product(handle: string, title: string, variants: ShopifyProduct['variants'] = undefined): ShopifyProduct {
+  return {
+    id: `gid://shopify/Product/${handle}`,
+    handle,
+    title,
+    status: 'DRAFT',
+    featuredImage: null,
+    media: { edges: [] },
+    variants,
+  };
+}
+
+function image(path: string): ImageFile {
+  return { name: path.split('/').pop()!, path, size: 1, type: 'image/jpeg' };
+}
+
+const widget = product('blue-widget', 'Blue Widget', {
+  edges: [
+    {
+      node: {
+        id: 'red-s',
+        title: 'Red / S',
+        sku: 'BW-RED-S',
+        selectedOptions: [
+          { name: 'Color', value: 'Red' },
+          { name: 'Size', value: 'S' },
+        ],
+      },
+    },
+    {
+      node: {
+        id: 'green-xl',
+        title: 'Green / XL',
+        sku: 'BW-GREEN-XL',
+        selectedOptions: [
+          { name: 'Color', value: 'Green' },
+          { name: 'Size', value: 'XL' },
+        ],
+      },
+    },
+  ],
+});
+
+describe('extractHandleFromFilename', () => {
+  it('removes supported extensions and lowercases', () => {
+    expect(extractHandleFromFilename('Blue-Widget.JPG')).toBe('blue-widget');
+    expect(extractHandleFromFilename('blue-widget.webp')).toBe('blue-widget');
+  });
+
+  it('keeps unsupported extensions', () => {
+    expect(extractHandleFromFilename('blue-widget.tiff')).toBe('blue-widget.tiff');
+  });
+});
+
+describe('splitPositionSuffix', () => {
+  it('splits numbered suffixes', () => {
+    expect(splitPositionSuffix('blue-widget-2')).toEqual({ handle: 'blue-widget', position: 2 });
+    expect(splitPositionSuffix('blue-widget_3')).toEqual({ handle: 'blue-widget', position: 3 });
+    expect(splitPositionSuffix('blue-widget@10')).toEqual({ handle: 'blue-widget', position: 10 });
+  });
+
+  it('leaves names without a suffix alone', () => {
+    expect(splitPositionSuffix('blue-widget')).toEqual({ handle: 'blue-widget', position: null });
+    expect(splitPositionSuffix('-2')).toEqual({ handle: '-2', position: null });
+  });
+});
+
+describe('getHandleCandidates', () => {
+  it('lists the whole name, then the position split off, then variant tokens', () => {
+    expect(getHandleCandidates('blue-widget--red-2.jpg')).toEqual([
+      { handle: 'blue-widget--red-2', position: null, variantTokens: [] },
+      { handle: 'blue-widget--red', position: 2, variantTokens: [] },
+      { handle: 'blue-widget', position: 2, variantTokens: ['red'] },
+    ]);
+  });
+
+  it('reads several variant tokens', () => {
+    expect(getHandleCandidates('blue-widget--red--size-s.png').pop()).toEqual({
+      handle: 'blue-widget',
+      position: null,
+      variantTokens: ['red', 'size-s'],
+    });
+  });
+
+  it('applies filename rules first', () => {
+    const rules = {
+      stripPrefixes: ['IMG_'],
+      stripSuffixes: ['_web'],
+      separators: [{ from: '_', to: '-' }],
+      capturePattern: '',
+      lowercase: true,
+    };
+    expect(getHandleCandidates('IMG_Blue_Widget_2_web.jpg', rules)).toEqual([
+      { handle: 'blue-widget-2', position: null, variantTokens: [] },
+      { handle: 'blue-widget', position: 2, variantTokens: [] },
+    ]);
+  });
+});
+
+describe('getParentFolder', () => {
+  it('returns the folder a file sits in', () => {
+    expect(getParentFolder('photos/blue-widget/front.jpg')).toBe('blue-widget');
+    expect(getParentFolder('front.jpg')).toBeNull();
+  });
+});
+
+describe('findVariantsByTokens', () => {
+  it('matches option values and name-value pairs', () => {
+    expect(findVariantsByTokens(widget, ['red']).map((v) => v.id)).toEqual(['red-s']);
+    expect(findVariantsByTokens(widget, ['size-xl']).map((v) => v.id)).toEqual(['green-xl']);
+    expect(findVariantsByTokens(widget, ['red', 'xl'])).toEqual([]);
+  });
+});
+
+describe('matchImagesToProducts', () => {
+  const products = [widget, product('green-gadget', 'Green Gadget')];
+
+  it('matches handles with positions and variants', () => {
+    const { results, matched } = matchImagesToProducts(
+      [image('blue-widget-2.jpg'), image('blue-widget--red.jpg')],
+      products
+    );
+    expect(matched).toBe(2);
+    expect(results[0]).toMatchObject({ product: widget, position: 2, strategy: 'handle' });
+    expect(results[1].variants.map((v) => v.id)).toEqual(['red-s']);
+  });
+
+  it('matches SKUs to their variant', () => {
+    const { results } = matchImagesToProducts([image('BW-GREEN-XL.jpg')], products);
+    expect(results[0]).toMatchObject({ product: widget, strategy: 'sku' });
+    expect(results[0].variants.map((v) => v.id)).toEqual(['green-xl']);
+  });
+
+  it('matches folder names with positions in filename order', () => {
+    const { results } = matchImagesToProducts(
+      [image('green-gadget/side.jpg'), image('green-gadget/front.jpg')],
+      products
+    );
+    expect(results.map((r) => [r.product?.handle, r.position])).toEqual([
+      ['green-gadget', 2],
+      ['green-gadget', 1],
+    ]);
+  });
+
+  it('applies the shop filename rules before matching', () => {
+    const rules = {
+      ...DEFAULT_FILENAME_RULES,
+      stripPrefixes: ['IMG_'],
+      separators: [{ from: '_', to: '-' }],
+    };
+    const { results } = matchImagesToProducts(
+      [image('IMG_Green_Gadget_2.jpg')],
+      products,
+      DEFAULT_STRATEGY_ORDER,
+      null,
+      rules
+    );
+    expect(results[0]).toMatchObject({ product: products[1], position: 2, strategy: 'handle' });
+  });
+
+  it('suggests near matches for unmatched images', () => {
+    const { results, unmatched } = matchImagesToProducts([image('blue-widgte-final.jpg')], products);
+    expect(unmatched).toBe(1);
+    expect(results[0].suggestions[0].product).toBe(widget);
+  });
+});
+
+describe('getVariantImages', () => {
+  it('gives each variant only its first image', () => {
+    const { results } = matchImagesToProducts(
+      [image('blue-widget--red-1.jpg'), image('blue-widget--red-2.jpg'), image('blue-widget-3.jpg')],
+      [widget]
+    );
+    const variantImages = getVariantImages(results);
+    expect(variantImages.get('blue-widget--red-1.jpg')!.map((v) => v.id)).toEqual(['red-s']);
+    expect(variantImages.get('blue-widget--red-2.jpg')).toEqual([]);
+    expect(variantImages.get('blue-widget-3.jpg')).toEqual([]);
+  });
+});
+
+describe('suggestProducts', () => {
+  it('returns the same suggestions for the same key and products', () => {
+    const products = [widget];
+    expect(suggestProducts('blue-widgit', products)).toBe(suggestProducts('blue-widgit', products));
+  });
+});
@@ -3,7 +3,18 @@
  * Matches uploaded images to Shopify products by comparing filenames to handles
  */
 
-import type { ShopifyProduct, ImageFile, MatchResult, MatchSummary } from './types';
+import type {
+  ShopifyProduct,
+  ShopifyVariant,
+  ImageFile,
+  MatchResult,
+  MatchStrategyId,
+  MatchSummary,
+  ProductSuggestion,
+} from './types';
+import type { Manifest, ManifestRow } from './manifest';
+import { applyFilenameRules, DEFAULT_FILENAME_RULES } from './filenameRules';
+import type { FilenameRules } from './filenameRules';
 
 /**
  * Supported image extensions
@@ -15,19 +26,234 @@ export const SUPPORTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif'];
  */
 export const MAX_FILE_SIZE_BYTES = 20 * 1024 * 1024;
 
+/**
+ * Numbered suffix that marks an image's gallery position, e.g. `-1`, `_2` or `@3`
+ */
+const POSITION_SUFFIX_PATTERN = /[-_@](\d+)$/;
+
+/**
+ * Separator between the handle and variant option tokens, e.g. `blue-widget--red`
+ */
+const VARIANT_SEPARATOR_PATTERN = /--|__/;
+
+/**
+ * Leftover editing suffixes that keep a filename from matching exactly, e.g. `-final`
+ */
+const NOISE_SUFFIX_PATTERN = /([-_ ](final|edit|edited|copy|new|web|v\d+))+$/;
+
+/**
+ * Suggestions below this similarity (0-1) are not worth showing
+ */
+const MIN_SUGGESTION_SCORE = 0.6;
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * A possible reading of a filename, tried in order until one matches a product
+ */
+export interface HandleCandidate {
+  handle: string;
+  position: number | null;
+  variantTokens: string[];
+}
+
 /**
  * Extract the handle from an image filename
- * Removes the file extension and normalizes the name
+ * Removes the file extension and normalizes the name with the shop's filename rules
  */
-export function extractHandleFromFilename(filename: string): string {
+export function extractHandleFromFilename(
+  filename: string,
+  rules: FilenameRules = DEFAULT_FILENAME_RULES
+): string {
   const extensionPattern = new RegExp(`(${SUPPORTED_EXTENSIONS.join('|')})$`, 'i');
-  return filename.replace(extensionPattern, '').toLowerCase();
+  return applyFilenameRules(filename.replace(extensionPattern, ''), rules);
+}
+
+/**
+ * Split a numbered position suffix off a handle
+ * `blue-widget-2` becomes `{ handle: 'blue-widget', position: 2 }`
+ */
+export function splitPositionSuffix(handle: string): { handle: string; position: number | null } {
+  const match = handle.match(POSITION_SUFFIX_PATTERN);
+  if (!match || match.index === 0) {
+    return { handle, position: null };
+  }
+  return {
+    handle: handle.slice(0, match.index),
+    position: parseInt(match[1], 10),
+  };
+}
+
+/**
+ * Turn a name or option value into a lowercase, hyphen-separated slug
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * List the ways a filename can be read, most literal first
+ * 1. The whole name as a handle (`blue-widget-2`)
+ * 2. A numbered position suffix split off (`blue-widget` at position 2)
+ * 3. Variant option tokens split off (`blue-widget--red-2` is `blue-widget`, variant `red`, position 2)
+ */
+export function getHandleCandidates(
+  filename: string,
+  rules: FilenameRules = DEFAULT_FILENAME_RULES
+): HandleCandidate[] {
+  const base = extractHandleFromFilename(filename, rules);
+  const candidates: HandleCandidate[] = [{ handle: base, position: null, variantTokens: [] }];
+
+  const split = splitPositionSuffix(base);
+  if (split.position !== null) {
+    candidates.push({ handle: split.handle, position: split.position, variantTokens: [] });
+  }
+
+  const [handle, ...variantTokens] = split.handle.split(VARIANT_SEPARATOR_PATTERN);
+  const tokens = variantTokens.filter(Boolean);
+  if (handle && tokens.length > 0) {
+    candidates.push({ handle, position: split.position, variantTokens: tokens });
+  }
+
+  return candidates;
+}
+
+/**
+ * Get the name of the folder a file sits in, or null for top-level files
+ */
+export function getParentFolder(path: string): string | null {
+  const parts = path.split('/');
+  return parts.length > 1 ? parts[parts.length - 2] : null;
 }
 
+/**
+ * Gallery position of each image within its folder, by natural filename order
+ * `blue-widget/front.jpg` and `blue-widget/back.jpg` get positions 2 and 1.
+ */
+export function getFolderPositions(images: ImageFile[]): Map<string, number> {
+  const byFolder = new Map<string, ImageFile[]>();
+  for (const image of images) {
+    const folder = image.path.slice(0, image.path.length - image.name.length);
+    if (!folder) continue;
+    byFolder.set(folder, [...(byFolder.get(folder) ?? []), image]);
+  }
+
+  const positions = new Map<string, number>();
+  for (const folderImages of byFolder.values()) {
+    folderImages
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+      .forEach((image, index) => positions.set(image.path, index + 1));
+  }
+  return positions;
+}
+
+/**
+ * List the readings of an image: a key given with it, its filename, then its folder name
+ * Images matched by folder take their position from the filename order in that folder.
+ */
+export function getImageCandidates(
+  image: ImageFile,
+  folderPositions: Map<string, number>,
+  rules: FilenameRules = DEFAULT_FILENAME_RULES
+): HandleCandidate[] {
+  const candidates = [
+    ...(image.matchKey ? getHandleCandidates(image.matchKey, rules) : []),
+    ...getHandleCandidates(image.name, rules),
+  ];
+  const folder = getParentFolder(image.path);
+  if (folder) {
+    const position = folderPositions.get(image.path) ?? null;
+    for (const candidate of getHandleCandidates(folder, rules)) {
+      candidates.push({ ...candidate, position });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Get a product's variants as a flat list
+ */
+export function getProductVariants(product: ShopifyProduct): ShopifyVariant[] {
+  return product.variants?.edges.map((edge) => edge.node) ?? [];
+}
+
+/**
+ * Find the variants whose selected options match every token
+ * A token matches an option by value (`red`) or by name and value (`size-xl`), ignoring case.
+ */
+export function findVariantsByTokens(product: ShopifyProduct, tokens: string[]): ShopifyVariant[] {
+  if (tokens.length === 0) return [];
+
+  const lowercaseTokens = tokens.map((token) => token.toLowerCase());
+  return getProductVariants(product).filter((variant) =>
+    lowercaseTokens.every((token) =>
+      variant.selectedOptions.some((option) => {
+        const value = slugify(option.value);
+        return token === value || token === `${slugify(option.name)}-${value}`;
+      })
+    )
+  );
+}
+
+/**
+ * A way of finding products from a key read out of a filename
+ */
+export interface MatchStrategy {
+  id: MatchStrategyId;
+  label: string;
+  /** Normalize a product key or filename candidate so the two compare equal */
+  normalize: (value: string) => string;
+  /** Keys the product can be found by; SKU and barcode keys point at a single variant */
+  keysForProduct: (product: ShopifyProduct) => Array<{ key: string; variant?: ShopifyVariant }>;
+}
+
+const normalizeKey = (value: string) => value.trim().toLowerCase();
+
+export const MATCH_STRATEGIES: Record<MatchStrategyId, MatchStrategy> = {
+  handle: {
+    id: 'handle',
+    label: 'Product handle',
+    normalize: normalizeKey,
+    keysForProduct: (product) => [{ key: product.handle }],
+  },
+  sku: {
+    id: 'sku',
+    label: 'Variant SKU',
+    normalize: normalizeKey,
+    keysForProduct: (product) =>
+      getProductVariants(product)
+        .filter((variant) => variant.sku)
+        .map((variant) => ({ key: variant.sku!, variant })),
+  },
+  barcode: {
+    id: 'barcode',
+    label: 'Barcode (EAN/UPC)',
+    normalize: normalizeKey,
+    keysForProduct: (product) =>
+      getProductVariants(product)
+        .filter((variant) => variant.barcode)
+        .map((variant) => ({ key: variant.barcode!, variant })),
+  },
+  title: {
+    id: 'title',
+    label: 'Product title',
+    normalize: slugify,
+    keysForProduct: (product) => [{ key: product.title }],
+  },
+};
+
+export const DEFAULT_STRATEGY_ORDER: MatchStrategyId[] = ['handle', 'sku', 'barcode', 'title'];
+
 /**
  * Validate an image file
+ * `maxSize` is raised when the image will be shrunk before upload.
  */
-export function validateImageFile(file: { name: string; size: number }): { valid: boolean; error?: string } {
+export function validateImageFile(
+  file: { name: string; size: number },
+  maxSize = MAX_FILE_SIZE_BYTES
+): { valid: boolean; error?: string } {
   const extension = '.' + file.name.split('.').pop()?.toLowerCase();
   if (!SUPPORTED_EXTENSIONS.includes(extension)) {
     return {
@@ -36,47 +262,192 @@ export function validateImageFile(file: { name: string; size: number }): { valid
     };
   }
   
-  if (file.size > MAX_FILE_SIZE_BYTES) {
+  if (file.size > maxSize) {
     const sizeMB = (file.size / (1024 * 1024)).toFixed(1);
     return {
       valid: false,
-      error: `File too large: ${sizeMB}MB. Maximum: 20MB`,
+      error: `File too large: ${sizeMB}MB. Maximum: ${Math.round(maxSize / (1024 * 1024))}MB`,
     };
   }
   
   return { valid: true };
 }
 
+type StrategyIndex = Map<string, { product: ShopifyProduct; variant?: ShopifyVariant }>;
+
 /**
- * Match images to products by comparing filenames to handles
+ * Index products by every key a strategy knows them by
+ * When two products share a key, the first one wins.
+ */
+function buildStrategyIndex(strategy: MatchStrategy, products: ShopifyProduct[]): StrategyIndex {
+  const index: StrategyIndex = new Map();
+  for (const product of products) {
+    for (const { key, variant } of strategy.keysForProduct(product)) {
+      const normalized = strategy.normalize(key);
+      if (normalized && !index.has(normalized)) {
+        index.set(normalized, { product, variant });
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * Find the variants a manifest names, by variant title (`Red / XL`) or option tokens (`red`)
+ */
+function findVariantsByName(product: ShopifyProduct, name: string): ShopifyVariant[] {
+  const slug = slugify(name);
+  const byTitle = getProductVariants(product).filter((variant) => slugify(variant.title) === slug);
+  return byTitle.length > 0 ? byTitle : findVariantsByTokens(product, name.split('/').map(slugify));
+}
+
+/**
+ * Match an image using its manifest row
+ * Returns the result and, when the row can't be resolved, the reason.
+ */
+function matchManifestRow(
+  image: ImageFile,
+  row: ManifestRow,
+  handleIndex: StrategyIndex,
+  skuIndex: StrategyIndex
+): { result: MatchResult; error?: string } {
+  const hit = row.handle
+    ? handleIndex.get(MATCH_STRATEGIES.handle.normalize(row.handle))
+    : skuIndex.get(MATCH_STRATEGIES.sku.normalize(row.sku));
+
+  const result: MatchResult = {
+    image,
+    product: hit?.product ?? null,
+    matched: Boolean(hit),
+    handle: row.handle || row.sku,
+    position: row.position,
+    variants: [],
+    variantTokens: [],
+    strategy: row.handle ? 'handle' : 'sku',
+    source: 'manifest',
+    suggestions: [],
+    alt: row.alt || undefined,
+  };
+
+  if (!hit) {
+    return {
+      result: { ...result, strategy: null },
+      error: row.handle
+        ? `Row ${row.line}: no product with handle "${row.handle}"`
+        : `Row ${row.line}: no variant with SKU "${row.sku}"`,
+    };
+  }
+
+  if (row.variant) {
+    result.variants = findVariantsByName(hit.product, row.variant);
+    if (result.variants.length === 0) {
+      return {
+        result,
+        error: `Row ${row.line}: ${hit.product.title} has no variant "${row.variant}"`,
+      };
+    }
+  } else if (hit.variant) {
+    result.variants = [hit.variant];
+  }
+
+  return { result };
+}
+
+/**
+ * Match images to products by comparing filenames to product keys
+ * Strategies are tried in the given order; the first one with a hit wins.
+ * Images listed in a manifest are matched by their row instead.
  */
 export function matchImagesToProducts(
   images: ImageFile[],
-  products: ShopifyProduct[]
+  products: ShopifyProduct[],
+  strategyOrder: MatchStrategyId[] = DEFAULT_STRATEGY_ORDER,
+  manifest: Manifest | null = null,
+  filenameRules: FilenameRules = DEFAULT_FILENAME_RULES
 ): MatchSummary {
-  const productsByHandle = new Map<string, ShopifyProduct>();
-  for (const product of products) {
-    productsByHandle.set(product.handle.toLowerCase(), product);
+  const strategies = strategyOrder.map((id) => MATCH_STRATEGIES[id]);
+  const indexes = strategies.map((strategy) => buildStrategyIndex(strategy, products));
+
+  const manifestRows = new Map<string, ManifestRow>();
+  for (const row of manifest?.rows ?? []) {
+    manifestRows.set(row.filename.toLowerCase(), row);
   }
+  const manifestErrors = [...(manifest?.errors ?? [])];
+  const listedRows = new Set<ManifestRow>();
+  const handleIndex = manifest ? buildStrategyIndex(MATCH_STRATEGIES.handle, products) : new Map();
+  const skuIndex = manifest ? buildStrategyIndex(MATCH_STRATEGIES.sku, products) : new Map();
   
+  const folderPositions = getFolderPositions(images);
   const results: MatchResult[] = [];
   let matchedCount = 0;
   
   for (const image of images) {
-    const handle = extractHandleFromFilename(image.name);
-    const product = productsByHandle.get(handle) || null;
-    const matched = product !== null;
+    const row =
+      manifestRows.get(image.path.toLowerCase()) ?? manifestRows.get(image.name.toLowerCase());
+    if (row) {
+      listedRows.add(row);
+      const { result, error } = matchManifestRow(image, row, handleIndex, skuIndex);
+      if (error) manifestErrors.push(error);
+      if (result.matched) matchedCount++;
+      results.push(result);
+      continue;
+    }
+
+    const candidates = getImageCandidates(image, folderPositions, filenameRules);
+    let result: MatchResult | null = null;
+
+    // An exact key wins within each strategy, so handles and SKUs ending in a number still match
+    for (let i = 0; i < strategies.length && !result; i++) {
+      for (const candidate of candidates) {
+        const hit = indexes[i].get(strategies[i].normalize(candidate.handle));
+        if (!hit) continue;
+
+        result = {
+          image,
+          product: hit.product,
+          matched: true,
+          handle: candidate.handle,
+          position: candidate.position,
+          variants: hit.variant
+            ? [hit.variant]
+            : findVariantsByTokens(hit.product, candidate.variantTokens),
+          variantTokens: hit.variant ? [] : candidate.variantTokens,
+          strategy: strategies[i].id,
+          source: 'auto',
+          suggestions: [],
+        };
+        break;
+      }
+    }
     
-    if (matched) {
+    if (result) {
       matchedCount++;
     }
     
-    results.push({
-      image,
-      product,
-      matched,
-      handle,
-    });
+    if (!result) {
+      // Keep the most stripped reading, so accepting a suggestion keeps position and variants
+      const candidate = candidates[candidates.length - 1];
+      result = {
+        image,
+        product: null,
+        matched: false,
+        handle: candidates[0].handle,
+        position: candidate.position,
+        variants: [],
+        variantTokens: candidate.variantTokens,
+        strategy: null,
+        source: 'auto',
+        suggestions: suggestProducts(candidate.handle, products),
+      };
+    }
+
+    results.push(result);
+  }
+
+  for (const row of manifest?.rows ?? []) {
+    if (!listedRows.has(row)) {
+      manifestErrors.push(`Row ${row.line}: ${row.filename} is not among the added images`);
+    }
   }
   
   return {
@@ -84,6 +455,116 @@ export function matchImagesToProducts(
     matched: matchedCount,
     unmatched: images.length - matchedCount,
     results,
+    manifestErrors,
+  };
+}
+
+/**
+ * Edit distance between two strings, giving up once it exceeds `max`
+ */
+export function levenshtein(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between 0 and 1, where 1 means identical
+ */
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 0;
+  const maxDistance = Math.floor(length * (1 - MIN_SUGGESTION_SCORE));
+  return 1 - levenshtein(a, b, maxDistance) / length;
+}
+
+/**
+ * Products prepared for suggestions, with the suggestions already found for each key
+ */
+interface SuggestionIndex {
+  entries: Array<{ product: ShopifyProduct; targets: Array<{ slug: string; compact: string }> }>;
+  cache: Map<string, ProductSuggestion[]>;
+}
+
+// Built once per loaded product list, so recomputing matches doesn't compare every image again
+const suggestionIndexes = new WeakMap<ShopifyProduct[], SuggestionIndex>();
+
+function getSuggestionIndex(products: ShopifyProduct[]): SuggestionIndex {
+  let index = suggestionIndexes.get(products);
+  if (!index) {
+    index = {
+      entries: products.map((product) => ({
+        product,
+        targets: [product.handle.toLowerCase(), slugify(product.title)].map((target) => ({
+          slug: target,
+          compact: target.replace(/-/g, ''),
+        })),
+      })),
+      cache: new Map(),
+    };
+    suggestionIndexes.set(products, index);
+  }
+  return index;
+}
+
+/**
+ * Rank products whose handle or title nearly matches a key
+ * Catches typos, missing hyphens and leftover suffixes such as `-final`. Results are cached per
+ * key for the same product list.
+ */
+export function suggestProducts(key: string, products: ShopifyProduct[]): ProductSuggestion[] {
+  const slug = slugify(key);
+  const index = getSuggestionIndex(products);
+  const cached = index.cache.get(slug);
+  if (cached) return cached;
+
+  const keys = Array.from(new Set([slug, slugify(slug.replace(NOISE_SUFFIX_PATTERN, ''))])).map(
+    (k) => ({ slug: k, compact: k.replace(/-/g, '') })
+  );
+
+  const suggestions: ProductSuggestion[] = [];
+  for (const { product, targets } of index.entries) {
+    let score = 0;
+    for (const k of keys) {
+      for (const target of targets) {
+        score = Math.max(score, similarity(k.slug, target.slug), similarity(k.compact, target.compact));
+      }
+    }
+    if (score >= MIN_SUGGESTION_SCORE) {
+      suggestions.push({ product, score: Math.round(score * 100) / 100 });
+    }
+  }
+
+  const ranked = suggestions.sort((a, b) => b.score - a.score).slice(0, MAX_SUGGESTIONS);
+  index.cache.set(slug, ranked);
+  return ranked;
+}
+
+/**
+ * Assign an image to a product chosen by the user, replacing any automatic match
+ * Keeps the position and variant tokens read from the filename.
+ */
+export function assignProduct(result: MatchResult, product: ShopifyProduct): MatchResult {
+  return {
+    ...result,
+    product,
+    matched: true,
+    variants: findVariantsByTokens(product, result.variantTokens),
+    strategy: null,
+    source: 'manual',
+    suggestions: [],
   };
 }
 
@@ -99,3 +580,50 @@ export function groupMatchResults(results: MatchResult[]): {
     unmatched: results.filter(r => !r.matched),
   };
 }
+
+/**
+ * Order matched results for upload
+ * Keeps each product's images together, sorted by gallery position.
+ * Images without a numbered suffix go first, in the order they were added.
+ */
+export function sortForUpload(results: MatchResult[]): MatchResult[] {
+  const productOrder = new Map<string, number>();
+  results.forEach((result, index) => {
+    const productId = result.product?.id ?? '';
+    if (!productOrder.has(productId)) {
+      productOrder.set(productId, index);
+    }
+  });
+
+  return results
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => {
+      const productA = productOrder.get(a.result.product?.id ?? '')!;
+      const productB = productOrder.get(b.result.product?.id ?? '')!;
+      if (productA !== productB) return productA - productB;
+
+      const positionA = a.result.position ?? 0;
+      const positionB = b.result.position ?? 0;
+      if (positionA !== positionB) return positionA - positionB;
+
+      return a.index - b.index;
+    })
+    .map(({ result }) => result);
+}
+
+/**
+ * Pick the variants each image is attached to
+ * A variant shows a single image, so it gets the first of its images in `results` order (the
+ * lowest position, after `sortForUpload`). Returns the variants by image path; later images of
+ * the same variant are only added to the product.
+ */
+export function getVariantImages(results: MatchResult[]): Map<string, ShopifyVariant[]> {
+  const taken = new Set<string>();
+  const variantImages = new Map<string, ShopifyVariant[]>();
+  for (const result of results) {
+    const variants = result.variants.filter((variant) => !taken.has(variant.id));
+    variants.forEach((variant) => taken.add(variant.id));
+    variantImages.set(result.image.path, variants);
+  }
+  return variantImages;
+}
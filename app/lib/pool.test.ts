@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeConcurrency, packIntoBatches, runGroupedConcurrently } from './pool';
+
+interface Item {
+  name: string;
+  group: string;
+  size: number;
+}
+
+const item = (name: string, group: string, size = 1): Item => ({ name, group, size });
+const names = (batches: Item[][]) => batches.map((batch) => batch.map((i) => i.name));
+const pack = (items: Item[], maxItems: number, maxBytes: number) =>
+  names(packIntoBatches(items, (i) => i.group, (i) => i.size, maxItems, maxBytes));
+
+describe('packIntoBatches', () => {
+  it('fills batches up to the count and size limits', () => {
+    const items = [item('a', 'a'), item('b', 'b'), item('c', 'c'), item('d', 'd', 5)];
+    expect(pack(items, 2, 10)).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(pack(items, 10, 5)).toEqual([['a', 'b', 'c'], ['d']]);
+  });
+
+  it('keeps a group in one batch', () => {
+    const items = [item('a', 'a'), item('b1', 'b'), item('b2', 'b'), item('c', 'c')];
+    expect(pack(items, 2, 10)).toEqual([['a'], ['b1', 'b2'], ['c']]);
+  });
+
+  it('keeps a group together even when its items are not next to each other', () => {
+    const items = [item('a1', 'a'), item('b', 'b'), item('a2', 'a')];
+    expect(pack(items, 10, 10)).toEqual([['a1', 'a2', 'b']]);
+  });
+
+  it('splits an oversized group over batches of its own, in order', () => {
+    const items = [item('x', 'x'), item('a1', 'a'), item('a2', 'a'), item('a3', 'a'), item('y', 'y')];
+    expect(pack(items, 2, 10)).toEqual([['x'], ['a1', 'a2'], ['a3'], ['y']]);
+  });
+
+  it('gives an item over the size limit a batch of its own', () => {
+    const items = [item('a', 'a'), item('big', 'b', 20), item('c', 'c')];
+    expect(pack(items, 10, 10)).toEqual([['a'], ['big'], ['c']]);
+  });
+});
+
+describe('runGroupedConcurrently', () => {
+  it('runs every item, each group in order, up to the limit at a time', async () => {
+    const items = [item('a1', 'a'), item('b1', 'b'), item('a2', 'a'), item('c1', 'c'), item('b2', 'b')];
+    const finished: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    await runGroupedConcurrently(items, (i) => i.group, 2, async (i) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, i.name === 'a1' ? 5 : 1));
+      running--;
+      finished.push(i.name);
+    });
+
+    expect(finished.sort()).toEqual(['a1', 'a2', 'b1', 'b2', 'c1']);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('never runs two items of a group at once', async () => {
+    const items = [item('a1', 'a'), item('a2', 'a'), item('a3', 'a')];
+    const order: string[] = [];
+    await runGroupedConcurrently(items, (i) => i.group, 3, async (i) => {
+      order.push(`start ${i.name}`);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      order.push(`end ${i.name}`);
+    });
+    expect(order).toEqual(['start a1', 'end a1', 'start a2', 'end a2', 'start a3', 'end a3']);
+  });
+
+  it('does nothing for no items', async () => {
+    await expect(runGroupedConcurrently([], () => '', 4, async () => {})).resolves.toBeUndefined();
+  });
+});
+
+describe('normalizeConcurrency', () => {
+  it('clamps to the supported range', () => {
+    expect(normalizeConcurrency(0)).toBe(1);
+    expect(normalizeConcurrency(3.6)).toBe(4);
+    expect(normalizeConcurrency(100)).toBe(10);
+    expect(normalizeConcurrency(NaN)).toBe(4);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Upload Pool
+ * Packs uploads into batch requests and runs them a few at a time. Uploads in the same group
+ * (usually one product) run one after another, in order, since Shopify appends a product's media
+ * in the order it is created.
+ */
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 4;
+export const MAX_UPLOAD_CONCURRENCY = 10;
+
+// Limits for one batch of uploads; direct uploads post each file to storage on its own
+export const MAX_BATCH_FILES = 10;
+export const MAX_BATCH_BYTES = 50 * 1024 * 1024;
+
+// Files sent through the app server travel in the request body, which serverless hosts cap
+// (4.5MB on Vercel), so those requests are kept under it with room for the form encoding
+export const MAX_PROXY_BATCH_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Clamp a requested concurrency to the supported range
+ */
+export function normalizeConcurrency(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_UPLOAD_CONCURRENCY;
+  return Math.min(MAX_UPLOAD_CONCURRENCY, Math.max(1, Math.round(value)));
+}
+
+/**
+ * Run a task for every item, at most `limit` at a time, keeping each group's items in order
+ */
+export async function runGroupedConcurrently<T>(
+  items: T[],
+  getGroup: (item: T) => string,
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  const queue = groupItems(items, getGroup);
+  const runNextGroup = async () => {
+    for (let group = queue.shift(); group; group = queue.shift()) {
+      for (const item of group) {
+        await task(item);
+      }
+    }
+  };
+
+  const workers = Math.min(normalizeConcurrency(limit), queue.length);
+  await Promise.all(Array.from({ length: workers }, runNextGroup));
+}
+
+function groupItems<T>(items: T[], getGroup: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getGroup(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Pack items into batches of limited count and size, keeping each group in a single batch
+ * A group too big for one batch is split over batches of its own, so running those batches
+ * in order (see `runGroupedConcurrently`) keeps the group's order.
+ */
+export function packIntoBatches<T>(
+  items: T[],
+  getGroup: (item: T) => string,
+  getSize: (item: T) => number,
+  maxItems = MAX_BATCH_FILES,
+  maxBytes = MAX_BATCH_BYTES
+): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let batchBytes = 0;
+
+  const flush = () => {
+    if (batch.length > 0) batches.push(batch);
+    batch = [];
+    batchBytes = 0;
+  };
+
+  for (const group of groupItems(items, getGroup)) {
+    const groupBytes = group.reduce((total, item) => total + getSize(item), 0);
+    if (batch.length + group.length > maxItems || batchBytes + groupBytes > maxBytes) {
+      flush();
+    }
+
+    if (group.length <= maxItems && groupBytes <= maxBytes) {
+      batch.push(...group);
+      batchBytes += groupBytes;
+      continue;
+    }
+
+    // Split an oversized group; a single item over the size limit still gets a batch
+    for (const item of group) {
+      const size = getSize(item);
+      if (batch.length >= maxItems || (batch.length > 0 && batchBytes + size > maxBytes)) {
+        flush();
+      }
+      batch.push(item);
+      batchBytes += size;
+    }
+    flush();
+  }
+  flush();
+
+  return batches;
+}
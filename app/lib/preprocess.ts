@@ -0,0 +1,135 @@
+/**
+ * Image Preprocessing
+ * Resizes, re-encodes and optionally squares images in the browser before they are uploaded.
+ * Drawing to a canvas applies the EXIF orientation, and re-encoding leaves all metadata behind,
+ * including camera GPS positions.
+ */
+
+import type { ImageInfo } from './types';
+
+export type PreprocessFormat = 'image/webp' | 'image/jpeg';
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  maxEdge: number; // Longest edge in pixels; 0 keeps the original size
+  format: PreprocessFormat;
+  quality: number; // 1-100
+  padToSquare: boolean;
+  background: string; // CSS colour behind padding and transparent pixels
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: false,
+  maxEdge: 2048,
+  format: 'image/webp',
+  quality: 85,
+  padToSquare: false,
+  background: '#ffffff',
+};
+
+export const PREPROCESS_FORMATS: Array<{ value: PreprocessFormat; label: string }> = [
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/jpeg', label: 'JPEG' },
+];
+
+/**
+ * Largest file accepted when preprocessing will shrink it before upload
+ */
+export const MAX_PREPROCESS_SIZE_BYTES = 100 * 1024 * 1024;
+
+const EXTENSIONS: Record<PreprocessFormat, string> = {
+  'image/webp': '.webp',
+  'image/jpeg': '.jpg',
+};
+
+/**
+ * Work out the scaled image size and the canvas it is drawn on
+ */
+function planCanvas(
+  width: number,
+  height: number,
+  options: Pick<PreprocessOptions, 'maxEdge' | 'padToSquare'>
+): { width: number; height: number; canvasWidth: number; canvasHeight: number } {
+  const longest = Math.max(width, height);
+  const scale = options.maxEdge > 0 && longest > options.maxEdge ? options.maxEdge / longest : 1;
+  const scaledWidth = Math.max(1, Math.round(width * scale));
+  const scaledHeight = Math.max(1, Math.round(height * scale));
+  const side = Math.max(scaledWidth, scaledHeight);
+
+  return {
+    width: scaledWidth,
+    height: scaledHeight,
+    canvasWidth: options.padToSquare ? side : scaledWidth,
+    canvasHeight: options.padToSquare ? side : scaledHeight,
+  };
+}
+
+/**
+ * Check whether an image is processed at all
+ * GIFs are left alone, since a canvas keeps only their first frame.
+ */
+export function canPreprocess(file: { name: string; type: string }): boolean {
+  return file.type !== 'image/gif' && !/\.gif$/i.test(file.name);
+}
+
+/**
+ * Predict an image's dimensions and colours after processing
+ * Re-encoding turns CMYK into RGB, and JPEG output fills transparent areas with the background.
+ */
+export function processedImageInfo(info: ImageInfo, options: PreprocessOptions): ImageInfo {
+  const plan = planCanvas(info.width, info.height, options);
+  return {
+    width: plan.canvasWidth,
+    height: plan.canvasHeight,
+    hasAlpha: info.hasAlpha && options.format !== 'image/jpeg',
+    cmyk: false,
+  };
+}
+
+/**
+ * Process one image with the given options
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions): Promise<File> {
+  if (!canPreprocess(file)) {
+    return file;
+  }
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const plan = planCanvas(bitmap.width, bitmap.height, options);
+    const canvas = document.createElement('canvas');
+    canvas.width = plan.canvasWidth;
+    canvas.height = plan.canvasHeight;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not process image: canvas is not available');
+    }
+    // JPEG has no transparency, and padding needs a colour either way
+    if (options.padToSquare || options.format === 'image/jpeg') {
+      context.fillStyle = options.background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(
+      bitmap,
+      Math.round((plan.canvasWidth - plan.width) / 2),
+      Math.round((plan.canvasHeight - plan.height) / 2),
+      plan.width,
+      plan.height
+    );
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, options.format, options.quality / 100)
+    );
+    // Browsers that can't encode the format fall back to PNG
+    if (!blob || blob.type !== options.format) {
+      throw new Error(`Could not process image: this browser can't create ${options.format} files`);
+    }
+
+    const name = file.name.replace(/\.[^.]+$/, '') + EXTENSIONS[options.format];
+    return new File([blob], name, { type: options.format, lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Publish When Ready
+ * After a job completes, sets the draft products it added images to to Active when they pass
+ * the job's readiness rules, and publishes them to the chosen sales channels.
+ */
+
+import { getUploadJobPublish, recordStatusChanges } from "../models/UploadJob.server";
+import { checkReadiness } from "./publish";
+import type { PublishResult, PublishRules } from "./publish";
+import { DEFAULT_UPLOAD_CONCURRENCY, runGroupedConcurrently } from "./pool";
+import { getProductStatusDetails, publishProduct, updateProductStatus } from "./upload.server";
+import type { AdminGraphql } from "./upload.server";
+
+async function publishIfReady(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+  rules: PublishRules,
+): Promise<PublishResult> {
+  const details = await getProductStatusDetails(admin, shop, productId);
+  if (!details) {
+    return {
+      productId,
+      title: null,
+      fromStatus: null,
+      toStatus: null,
+      publications: [],
+      note: "Product not found",
+    };
+  }
+
+  const result: PublishResult = {
+    productId,
+    title: details.title,
+    fromStatus: details.status,
+    toStatus: null,
+    publications: [],
+  };
+  // Active products are live already, and archived ones were taken down on purpose
+  if (details.status !== "DRAFT") {
+    return { ...result, note: "Only draft products are set to Active" };
+  }
+
+  const unmet = checkReadiness(details, rules);
+  if (unmet.length > 0) {
+    return { ...result, note: `Not ready: ${unmet.join(", ")}` };
+  }
+
+  const updated = await updateProductStatus(admin, shop, productId, "ACTIVE");
+  if (!updated.success) {
+    return { ...result, note: `Could not set to Active: ${updated.error}` };
+  }
+
+  const published = await publishProduct(
+    admin,
+    shop,
+    productId,
+    rules.publications.map((p) => p.id),
+  );
+  return {
+    ...result,
+    toStatus: "ACTIVE",
+    publications: published.success ? rules.publications.map((p) => p.name) : [],
+    note: published.success ? undefined : `Not published to sales channels: ${published.error}`,
+  };
+}
+
+/**
+ * Run the publish step of a finished job, once, and log the outcome for each product
+ * Returns null when the job has publishing off.
+ */
+export async function publishJobProducts(
+  admin: AdminGraphql,
+  shop: string,
+  jobId: string,
+): Promise<PublishResult[] | null> {
+  const plan = await getUploadJobPublish(shop, jobId);
+  if (!plan) return null;
+
+  const results: PublishResult[] = [];
+  await runGroupedConcurrently(
+    plan.productIds,
+    (productId) => productId,
+    DEFAULT_UPLOAD_CONCURRENCY,
+    async (productId) => {
+      try {
+        results.push(await publishIfReady(admin, shop, productId, plan.rules));
+      } catch (error) {
+        console.error("Publish error:", error);
+        results.push({
+          productId,
+          title: null,
+          fromStatus: null,
+          toStatus: null,
+          publications: [],
+          note: error instanceof Error ? error.message : "Could not publish",
+        });
+      }
+    },
+  );
+
+  await recordStatusChanges(shop, jobId, results);
+  return results;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { checkReadiness, parsePublishRules, DEFAULT_PUBLISH_RULES } from './publish';
+
+const rules = { ...DEFAULT_PUBLISH_RULES, enabled: true, minImages: 2 };
+
+function readiness(mediaCount: number, unreadyMediaCount: number, unpricedVariantCount: number) {
+  return { mediaCount, unreadyMediaCount, unpricedVariantCount };
+}
+
+describe('checkReadiness', () => {
+  it('passes a product that meets every rule', () => {
+    expect(checkReadiness(readiness(2, 0, 0), rules)).toEqual([]);
+  });
+
+  it('lists each unmet rule', () => {
+    expect(checkReadiness(readiness(1, 1, 3), rules)).toEqual([
+      'has 1 of 2 images',
+      'images still processing or failed: 1',
+      'variants without a price: 3',
+    ]);
+  });
+
+  it('skips the rules that are turned off', () => {
+    const relaxed = { ...rules, minImages: 0, requireMediaReady: false, requirePrice: false };
+    expect(checkReadiness(readiness(0, 1, 3), relaxed)).toEqual([]);
+  });
+});
+
+describe('parsePublishRules', () => {
+  it('returns null when publishing is off or nothing was saved', () => {
+    expect(parsePublishRules(null)).toBeNull();
+    expect(parsePublishRules({ ...rules, enabled: false })).toBeNull();
+  });
+
+  it('cleans up saved rules', () => {
+    expect(
+      parsePublishRules({
+        enabled: true,
+        minImages: '2.6',
+        requirePrice: false,
+        publications: [{ id: 'gid://shopify/Publication/1', name: 'Online Store' }, { id: 2 }, null],
+      })
+    ).toEqual({
+      enabled: true,
+      minImages: 3,
+      requireMediaReady: true,
+      requirePrice: false,
+      publications: [{ id: 'gid://shopify/Publication/1', name: 'Online Store' }],
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Publish When Ready
+ * Rules a draft product has to pass before a run sets it to Active once its images are attached,
+ * optionally publishing it to chosen sales channels as well.
+ */
+
+export interface PublishRules {
+  enabled: boolean;
+  minImages: number; // 0 turns the rule off
+  requireMediaReady: boolean; // Every image processed by Shopify
+  requirePrice: boolean; // Every variant priced above zero
+  publications: Publication[]; // Sales channels to publish to; none leaves publishing alone
+}
+
+export interface Publication {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_PUBLISH_RULES: PublishRules = {
+  enabled: false,
+  minImages: 1,
+  requireMediaReady: true,
+  requirePrice: true,
+  publications: [],
+};
+
+/**
+ * What the readiness rules look at, read from the product after the upload
+ */
+export interface ProductReadiness {
+  mediaCount: number;
+  unreadyMediaCount: number;
+  unpricedVariantCount: number;
+}
+
+/**
+ * Outcome for one product of a run
+ * `toStatus` is null when the product's status was left alone.
+ */
+export interface PublishResult {
+  productId: string;
+  title: string | null;
+  fromStatus: string | null;
+  toStatus: string | null;
+  publications: string[]; // Names of the sales channels it was published to
+  note?: string; // Unmet rules, or what went wrong
+}
+
+/**
+ * Read rules saved as JSON, or null when publishing is off
+ */
+export function parsePublishRules(value: unknown): PublishRules | null {
+  if (!value || typeof value !== 'object') return null;
+  const rules = value as Partial<PublishRules>;
+  if (!rules.enabled) return null;
+
+  return {
+    enabled: true,
+    minImages: Math.max(0, Math.round(Number(rules.minImages) || 0)),
+    requireMediaReady: rules.requireMediaReady !== false,
+    requirePrice: rules.requirePrice !== false,
+    publications: Array.isArray(rules.publications)
+      ? rules.publications.filter(
+          (p): p is Publication => !!p && typeof p.id === 'string' && typeof p.name === 'string'
+        )
+      : [],
+  };
+}
+
+/**
+ * List the rules a product doesn't pass yet; an empty list means it is ready
+ */
+export function checkReadiness(readiness: ProductReadiness, rules: PublishRules): string[] {
+  const unmet: string[] = [];
+  if (readiness.mediaCount < rules.minImages) {
+    unmet.push(`has ${readiness.mediaCount} of ${rules.minImages} images`);
+  }
+  if (rules.requireMediaReady && readiness.unreadyMediaCount > 0) {
+    unmet.push(`images still processing or failed: ${readiness.unreadyMediaCount}`);
+  }
+  if (rules.requirePrice && readiness.unpricedVariantCount > 0) {
+    unmet.push(`variants without a price: ${readiness.unpricedVariantCount}`);
+  }
+  return unmet;
+}
+
+/**
+ * Describe one product's outcome for the results list
+ */
+export function describePublishResult(result: PublishResult): string {
+  const status = (value: string | null) =>
+    value ? value.charAt(0) + value.slice(1).toLowerCase() : 'Unknown';
+
+  if (!result.toStatus) {
+    return `Left as ${status(result.fromStatus)}${result.note ? ` (${result.note})` : ''}`;
+  }
+  const published =
+    result.publications.length > 0 ? `, published to ${result.publications.join(', ')}` : '';
+  return `${status(result.fromStatus)} → ${status(result.toStatus)}${published}${
+    result.note ? ` (${result.note})` : ''
+  }`;
+}
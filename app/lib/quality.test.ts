@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { checkImageQuality, parseQualityRules, DEFAULT_QUALITY_RULES } from './quality';
+import type { QualityRules } from './quality';
+import type { ImageInfo } from './types';
+
+function info(width: number, height: number, extra: Partial<ImageInfo> = {}): ImageInfo {
+  return { width, height, hasAlpha: false, cmyk: false, ...extra };
+}
+
+const rules: QualityRules = {
+  ...DEFAULT_QUALITY_RULES,
+  minWidth: 800,
+  minHeight: 800,
+  minAspectRatio: 1,
+  maxAspectRatio: 1,
+};
+
+describe('checkImageQuality', () => {
+  it('checks nothing while every rule is off', () => {
+    expect(checkImageQuality(null, DEFAULT_QUALITY_RULES)).toEqual([]);
+    expect(checkImageQuality(info(10, 1000), DEFAULT_QUALITY_RULES)).toEqual([]);
+  });
+
+  it('passes images that meet the rules, allowing for rounding in the ratio', () => {
+    expect(checkImageQuality(info(1000, 1000), rules)).toEqual([]);
+    expect(checkImageQuality(info(1001, 1000), rules)).toEqual([]);
+  });
+
+  it('rejects small, tall and wide images', () => {
+    expect(checkImageQuality(info(600, 800), rules).map((issue) => issue.message)).toEqual([
+      'Too small: 600×800, minimum 800×800',
+      'Too tall: aspect ratio 0.75, minimum 1',
+    ]);
+    expect(checkImageQuality(info(1600, 900), rules)).toEqual([
+      { severity: 'error', message: 'Too wide: aspect ratio 1.78, maximum 1' },
+    ]);
+  });
+
+  it('rejects images over the pixel limit', () => {
+    const limit = { ...DEFAULT_QUALITY_RULES, maxMegapixels: 25 };
+    expect(checkImageQuality(info(6000, 5000), limit)).toEqual([
+      { severity: 'error', message: 'Too many pixels: 30.0 MP, maximum 25 MP' },
+    ]);
+  });
+
+  it('warns about CMYK, transparency and images it could not read', () => {
+    const warnings = { ...DEFAULT_QUALITY_RULES, warnCmyk: true, warnTransparency: true };
+    expect(checkImageQuality(info(100, 100, { cmyk: true, hasAlpha: true }), warnings)).toEqual([
+      { severity: 'warning', message: 'CMYK colours may look different in the shop' },
+      { severity: 'warning', message: 'Has transparent areas' },
+    ]);
+    expect(checkImageQuality(null, warnings)).toEqual([
+      { severity: 'warning', message: 'Could not read the image to check its quality' },
+    ]);
+  });
+});
+
+describe('parseQualityRules', () => {
+  it('falls back to the defaults for missing or invalid values', () => {
+    expect(parseQualityRules(null)).toEqual(DEFAULT_QUALITY_RULES);
+    const saved = { minWidth: 800, minHeight: -5, maxMegapixels: 'a', warnCmyk: 'yes' };
+    expect(parseQualityRules(saved)).toEqual({ ...DEFAULT_QUALITY_RULES, minWidth: 800 });
+  });
+});
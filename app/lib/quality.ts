@@ -0,0 +1,196 @@
+/**
+ * Image Quality Rules
+ * Decodes dropped images in the browser to check their size, shape and colours against rules the
+ * merchant sets, e.g. to keep thumbnails and banners out of square product grids.
+ */
+
+import type { ImageInfo } from './types';
+
+export interface QualityRules {
+  minWidth: number; // Pixels; 0 turns the rule off
+  minHeight: number;
+  minAspectRatio: number; // Width divided by height; 0 turns the rule off
+  maxAspectRatio: number;
+  maxMegapixels: number; // 0 turns the rule off
+  warnCmyk: boolean;
+  warnTransparency: boolean;
+}
+
+// Every rule is off until the shop turns it on, so no image is held back that would have uploaded
+export const DEFAULT_QUALITY_RULES: QualityRules = {
+  minWidth: 0,
+  minHeight: 0,
+  minAspectRatio: 0,
+  maxAspectRatio: 0,
+  maxMegapixels: 0, // Shopify's own limit for product images is 25 MP
+  warnCmyk: false,
+  warnTransparency: false,
+};
+
+export interface QualityIssue {
+  severity: 'error' | 'warning'; // Errors block the upload; warnings can be overridden
+  message: string;
+}
+
+/**
+ * Read saved quality rules, falling back to the defaults for missing or invalid values
+ */
+export function parseQualityRules(value: unknown): QualityRules {
+  if (!value || typeof value !== 'object') return DEFAULT_QUALITY_RULES;
+  const rules = value as Partial<QualityRules>;
+  const limit = (number: unknown) =>
+    typeof number === 'number' && Number.isFinite(number) ? Math.max(0, number) : 0;
+
+  return {
+    minWidth: limit(rules.minWidth),
+    minHeight: limit(rules.minHeight),
+    minAspectRatio: limit(rules.minAspectRatio),
+    maxAspectRatio: limit(rules.maxAspectRatio),
+    maxMegapixels: limit(rules.maxMegapixels),
+    warnCmyk: rules.warnCmyk === true,
+    warnTransparency: rules.warnTransparency === true,
+  };
+}
+
+/**
+ * Tell whether any quality rule is turned on
+ */
+export function hasQualityRules(rules: QualityRules): boolean {
+  return (
+    rules.minWidth > 0 ||
+    rules.minHeight > 0 ||
+    rules.minAspectRatio > 0 ||
+    rules.maxAspectRatio > 0 ||
+    rules.maxMegapixels > 0 ||
+    rules.warnCmyk ||
+    rules.warnTransparency
+  );
+}
+
+// Transparency is checked on a copy this small, which is enough to find transparent areas
+const ALPHA_SAMPLE_EDGE = 256;
+
+/**
+ * Count the colour components of a JPEG from its frame header
+ * Returns null for data that isn't a JPEG or has no frame header in the bytes given.
+ */
+function readJpegComponents(bytes: Uint8Array): number | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Padding before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // Start of frame markers (SOF0-SOF15), except DHT, JPG and DAC
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return bytes[offset + 9];
+    }
+    // Start of scan: image data follows, and the frame header should have come first
+    if (marker === 0xda) return null;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function isJpeg(file: File): boolean {
+  return file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name);
+}
+
+function hasTransparentPixels(bitmap: ImageBitmap): boolean {
+  const scale = Math.min(1, ALPHA_SAMPLE_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return false;
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+/**
+ * Decode an image to read its dimensions, transparency and colour model
+ */
+export async function readImageInfo(file: File): Promise<ImageInfo> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    // JPEG has no transparency; the frame header is near the start of the file
+    const jpeg = isJpeg(file);
+    const components = jpeg
+      ? readJpegComponents(new Uint8Array(await file.slice(0, 256 * 1024).arrayBuffer()))
+      : null;
+
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      hasAlpha: jpeg ? false : hasTransparentPixels(bitmap),
+      cmyk: components === 4,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Check an image against the quality rules
+ * An image the browser couldn't decode gets a warning, since Shopify may still accept it. With
+ * every rule off nothing is checked, so such images aren't held back either.
+ */
+export function checkImageQuality(info: ImageInfo | null, rules: QualityRules): QualityIssue[] {
+  if (!hasQualityRules(rules)) return [];
+  if (!info) {
+    return [{ severity: 'warning', message: 'Could not read the image to check its quality' }];
+  }
+
+  const issues: QualityIssue[] = [];
+  const size = `${info.width}×${info.height}`;
+
+  if (info.width < rules.minWidth || info.height < rules.minHeight) {
+    issues.push({
+      severity: 'error',
+      message: `Too small: ${size}, minimum ${rules.minWidth}×${rules.minHeight}`,
+    });
+  }
+
+  const ratio = info.width / info.height;
+  if (rules.minAspectRatio > 0 && ratio < rules.minAspectRatio - 0.005) {
+    issues.push({
+      severity: 'error',
+      message: `Too tall: aspect ratio ${ratio.toFixed(2)}, minimum ${rules.minAspectRatio}`,
+    });
+  }
+  if (rules.maxAspectRatio > 0 && ratio > rules.maxAspectRatio + 0.005) {
+    issues.push({
+      severity: 'error',
+      message: `Too wide: aspect ratio ${ratio.toFixed(2)}, maximum ${rules.maxAspectRatio}`,
+    });
+  }
+
+  const megapixels = (info.width * info.height) / 1_000_000;
+  if (rules.maxMegapixels > 0 && megapixels > rules.maxMegapixels) {
+    issues.push({
+      severity: 'error',
+      message: `Too many pixels: ${megapixels.toFixed(1)} MP, maximum ${rules.maxMegapixels} MP`,
+    });
+  }
+
+  if (rules.warnCmyk && info.cmyk) {
+    issues.push({ severity: 'warning', message: 'CMYK colours may look different in the shop' });
+  }
+  if (rules.warnTransparency && info.hasAlpha) {
+    issues.push({ severity: 'warning', message: 'Has transparent areas' });
+  }
+
+  return issues;
+}
@@ -0,0 +1,153 @@
+/**
+ * Remote Image Pre-flight
+ * Checks pasted image URLs before they are imported. Only public https hosts are requested, so
+ * the check can't be pointed at the app's own network.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { validateRemoteImage } from "./remote";
+import type { RemoteImageCheck } from "./remote";
+
+// Pre-flight checks run a few at a time, each with its own timeout
+const PREFLIGHT_CONCURRENCY = 10;
+const PREFLIGHT_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+// Loopback, private, link-local, carrier-grade NAT, metadata, multicast and other reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Reject a URL unless it is https and every address its host resolves to is public
+ * Returns the reason it was rejected, or null when it may be requested.
+ */
+async function checkRemoteUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Invalid URL";
+  }
+  if (url.protocol !== "https:") {
+    return "Only https URLs are supported";
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  try {
+    const addresses = isIP(hostname)
+      ? [{ address: hostname }]
+      : await lookup(hostname, { all: true, verbatim: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return "Host is not a public address";
+    }
+  } catch {
+    return "Host could not be resolved";
+  }
+  return null;
+}
+
+/**
+ * Request a URL, following redirects only to hosts that pass the same checks
+ */
+async function fetchPublic(url: string, method: "HEAD" | "GET"): Promise<Response> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const rejected = await checkRemoteUrl(current);
+    if (rejected) throw new Error(rejected);
+
+    const response = await fetch(current, {
+      method,
+      redirect: "manual",
+      signal: AbortSignal.timeout(PREFLIGHT_TIMEOUT_MS),
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+    current = new URL(location, current).toString();
+  }
+}
+
+async function checkRemoteImage(url: string): Promise<RemoteImageCheck> {
+  try {
+    let response = await fetchPublic(url, "HEAD");
+    // Some CDNs refuse HEAD; read the headers of a GET instead and drop the body
+    if (response.status === 405 || response.status === 403) {
+      response = await fetchPublic(url, "GET");
+      await response.body?.cancel();
+    }
+
+    if (!response.ok) {
+      return { url, ok: false, contentType: null, size: null, error: `Request failed: ${response.status}` };
+    }
+
+    const contentType = response.headers.get("content-type");
+    const contentLength = response.headers.get("content-length");
+    const size = contentLength ? parseInt(contentLength, 10) : null;
+    const validation = validateRemoteImage({ url, contentType, size });
+    return { url, ok: validation.valid, contentType, size, error: validation.error };
+  } catch (error) {
+    return {
+      url,
+      ok: false,
+      contentType: null,
+      size: null,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  }
+}
+
+/**
+ * Check a list of remote images, a few at a time
+ */
+export async function checkRemoteImages(urls: string[]): Promise<RemoteImageCheck[]> {
+  const checks: RemoteImageCheck[] = [];
+  for (let i = 0; i < urls.length; i += PREFLIGHT_CONCURRENCY) {
+    const batch = urls.slice(i, i + PREFLIGHT_CONCURRENCY);
+    checks.push(...(await Promise.all(batch.map(checkRemoteImage))));
+  }
+  return checks;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { filenameFromUrl, parseUrlList, validateRemoteImage } from './remote';
+
+describe('parseUrlList', () => {
+  it('reads plain URLs and handle,url rows, skipping headers and blank lines', () => {
+    const text = [
+      'handle,url',
+      'https://cdn.example.com/front.jpg',
+      '',
+      'blue-widget,https://cdn.example.com/side.jpg',
+    ].join('\n');
+
+    expect(parseUrlList(text)).toEqual([
+      { url: 'https://cdn.example.com/front.jpg' },
+      { url: 'https://cdn.example.com/side.jpg', handle: 'blue-widget' },
+    ]);
+  });
+
+  it('skips repeated URLs and URLs that are not http', () => {
+    const text = 'https://a.example.com/1.png\nftp://a.example.com/2.png\nhttps://a.example.com/1.png';
+    expect(parseUrlList(text)).toEqual([{ url: 'https://a.example.com/1.png' }]);
+  });
+});
+
+describe('filenameFromUrl', () => {
+  it('decodes the last path segment', () => {
+    expect(filenameFromUrl('https://cdn.example.com/a/blue%20widget.jpg?v=2')).toBe('blue widget.jpg');
+    expect(filenameFromUrl('https://cdn.example.com/')).toBe('image');
+  });
+});
+
+describe('validateRemoteImage', () => {
+  it('accepts supported types within the size limit', () => {
+    const check = { url: 'x', contentType: 'image/JPEG; charset=binary', size: null };
+    expect(validateRemoteImage(check)).toEqual({ valid: true });
+  });
+
+  it('rejects other types and large files', () => {
+    expect(validateRemoteImage({ url: 'x', contentType: 'text/html', size: 10 }).valid).toBe(false);
+    const large = { url: 'x', contentType: 'image/png', size: 30 * 1024 * 1024 };
+    expect(validateRemoteImage(large)).toEqual({
+      valid: false,
+      error: 'File too large: 30.0MB. Maximum: 20MB',
+    });
+  });
+});
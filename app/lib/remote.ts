@@ -0,0 +1,93 @@
+/**
+ * Remote Image Sources
+ * Parses pasted URL lists and checks pre-flight results before images are imported by URL
+ */
+
+import { MAX_FILE_SIZE_BYTES } from './matching';
+import { parseCsv } from './manifest';
+
+export const SUPPORTED_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// URLs checked in one pre-flight request, so a request can't stay open for long
+export const MAX_PREFLIGHT_URLS = 50;
+
+export interface RemoteImageSource {
+  url: string;
+  handle?: string; // Product key given next to the URL, e.g. in a handle,url list
+}
+
+/**
+ * Result of a HEAD request against a remote image
+ */
+export interface RemoteImageCheck {
+  url: string;
+  ok: boolean;
+  contentType: string | null;
+  size: number | null; // From Content-Length; null when the server doesn't send it
+  error?: string;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse pasted text or a CSV of image URLs
+ * Each line is either `url` or `handle,url`; header rows and blank lines are skipped.
+ */
+export function parseUrlList(text: string): RemoteImageSource[] {
+  const sources: RemoteImageSource[] = [];
+  const seen = new Set<string>();
+
+  for (const row of parseCsv(text)) {
+    const cells = row.map((cell) => cell.trim()).filter(Boolean);
+    const url = cells.find(isHttpUrl);
+    if (!url || seen.has(url)) continue;
+
+    seen.add(url);
+    const handle = cells.find((cell) => cell !== url);
+    sources.push(handle ? { url, handle } : { url });
+  }
+
+  return sources;
+}
+
+/**
+ * Get a filename from the last segment of a URL's path
+ */
+export function filenameFromUrl(url: string): string {
+  const segment = new URL(url).pathname.split('/').filter(Boolean).pop() ?? '';
+  try {
+    return decodeURIComponent(segment) || 'image';
+  } catch {
+    return segment || 'image';
+  }
+}
+
+/**
+ * Check a pre-flight response against the types and size Shopify accepts
+ */
+export function validateRemoteImage(check: Omit<RemoteImageCheck, 'ok' | 'error'>): { valid: boolean; error?: string } {
+  const contentType = check.contentType?.split(';')[0].trim().toLowerCase() ?? '';
+  if (!SUPPORTED_CONTENT_TYPES.includes(contentType)) {
+    return {
+      valid: false,
+      error: `Unsupported content type: ${contentType || 'unknown'}. Supported: ${SUPPORTED_CONTENT_TYPES.join(', ')}`,
+    };
+  }
+
+  if (check.size !== null && check.size > MAX_FILE_SIZE_BYTES) {
+    const sizeMB = (check.size / (1024 * 1024)).toFixed(1);
+    return {
+      valid: false,
+      error: `File too large: ${sizeMB}MB. Maximum: 20MB`,
+    };
+  }
+
+  return { valid: true };
+}
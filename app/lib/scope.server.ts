@@ -0,0 +1,28 @@
+/**
+ * Product Scope Queries
+ * Reads what the scope selector offers to choose from.
+ */
+
+import type { ScopeCollection } from "./scope";
+import type { AdminGraphql } from "./upload.server";
+
+// GraphQL query to fetch collections for the scope selector
+const GET_COLLECTIONS = `#graphql
+  query GetCollections {
+    collections(first: 250, sortKey: TITLE) {
+      nodes {
+        id
+        title
+      }
+    }
+  }
+`;
+
+/**
+ * Get the collections a scope can be narrowed to, the first 250 by title
+ */
+export async function getScopeCollections(admin: AdminGraphql): Promise<ScopeCollection[]> {
+  const response = await admin(GET_COLLECTIONS);
+  const data = await response.json();
+  return data.data.collections.nodes;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyProductScope,
+  buildProductSearchQuery,
+  parseProductScope,
+  DEFAULT_PRODUCT_SCOPE,
+} from './scope';
+import type { ProductScope } from './scope';
+
+describe('buildProductSearchQuery', () => {
+  it('searches draft products by default', () => {
+    expect(buildProductSearchQuery(DEFAULT_PRODUCT_SCOPE)).toBe('status:draft');
+  });
+
+  it('adds a term for each field, quoting free text', () => {
+    const scope: ProductScope = {
+      status: 'active',
+      vendor: 'Acme "Goods"',
+      productType: 'Shoes',
+      tag: 'summer\\sale',
+      collectionId: 'gid://shopify/Collection/123',
+      createdAfter: '2026-01-01',
+      createdBefore: '2026-06-30',
+    };
+    expect(buildProductSearchQuery(scope)).toBe(
+      'status:active vendor:"Acme \\"Goods\\"" product_type:"Shoes" tag:"summer\\\\sale" ' +
+        'collection_id:123 created_at:>=2026-01-01 created_at:<=2026-06-30'
+    );
+  });
+
+  it('leaves the status out for any status', () => {
+    expect(buildProductSearchQuery({ ...DEFAULT_PRODUCT_SCOPE, status: 'any' })).toBe('');
+  });
+});
+
+describe('parseProductScope', () => {
+  it('reads back what applyProductScope writes, keeping other parameters', () => {
+    const scope: ProductScope = { ...DEFAULT_PRODUCT_SCOPE, status: 'any', vendor: 'Acme' };
+    const params = applyProductScope(new URLSearchParams('host=abc&status=archived'), scope);
+    expect(params.get('host')).toBe('abc');
+    expect(parseProductScope(params)).toEqual(scope);
+  });
+
+  it('drops invalid statuses and dates', () => {
+    const params = new URLSearchParams('status=deleted&created_after=yesterday&tag=%20new%20');
+    expect(parseProductScope(params)).toEqual({ ...DEFAULT_PRODUCT_SCOPE, tag: 'new' });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Product Scope
+ * Describes which products a run works on and turns that into an Admin API search query.
+ * The scope lives in the URL so a run can be reproduced from a link.
+ */
+
+export type ProductScopeStatus = 'draft' | 'active' | 'archived' | 'any';
+
+export interface ProductScope {
+  status: ProductScopeStatus;
+  vendor: string;
+  productType: string;
+  tag: string;
+  collectionId: string; // Collection GID, e.g. gid://shopify/Collection/123
+  createdAfter: string; // YYYY-MM-DD
+  createdBefore: string; // YYYY-MM-DD
+}
+
+/**
+ * A collection the scope can be narrowed to
+ */
+export interface ScopeCollection {
+  id: string;
+  title: string;
+}
+
+export const DEFAULT_PRODUCT_SCOPE: ProductScope = {
+  status: 'draft',
+  vendor: '',
+  productType: '',
+  tag: '',
+  collectionId: '',
+  createdAfter: '',
+  createdBefore: '',
+};
+
+export const PRODUCT_SCOPE_STATUSES: Array<{ value: ProductScopeStatus; label: string }> = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'active', label: 'Active' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'any', label: 'Any status' },
+];
+
+/**
+ * URL search parameter for each scope field
+ */
+const SCOPE_PARAMS: Record<keyof ProductScope, string> = {
+  status: 'status',
+  vendor: 'vendor',
+  productType: 'type',
+  tag: 'tag',
+  collectionId: 'collection',
+  createdAfter: 'created_after',
+  createdBefore: 'created_before',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read the scope from URL search parameters, falling back to draft products
+ */
+export function parseProductScope(searchParams: URLSearchParams): ProductScope {
+  const scope = { ...DEFAULT_PRODUCT_SCOPE };
+  for (const key of Object.keys(SCOPE_PARAMS) as Array<keyof ProductScope>) {
+    const value = searchParams.get(SCOPE_PARAMS[key])?.trim();
+    if (value) {
+      (scope as Record<keyof ProductScope, string>)[key] = value;
+    }
+  }
+
+  if (!PRODUCT_SCOPE_STATUSES.some((s) => s.value === scope.status)) {
+    scope.status = DEFAULT_PRODUCT_SCOPE.status;
+  }
+  if (!DATE_PATTERN.test(scope.createdAfter)) scope.createdAfter = '';
+  if (!DATE_PATTERN.test(scope.createdBefore)) scope.createdBefore = '';
+
+  return scope;
+}
+
+/**
+ * Write the scope into URL search parameters
+ * Other parameters, such as the embedded app's `host` and `shop`, are kept.
+ */
+export function applyProductScope(searchParams: URLSearchParams, scope: ProductScope): URLSearchParams {
+  const next = new URLSearchParams(searchParams);
+  for (const key of Object.keys(SCOPE_PARAMS) as Array<keyof ProductScope>) {
+    const value = scope[key];
+    if (value && value !== DEFAULT_PRODUCT_SCOPE[key]) {
+      next.set(SCOPE_PARAMS[key], value);
+    } else {
+      next.delete(SCOPE_PARAMS[key]);
+    }
+  }
+  return next;
+}
+
+/**
+ * Quote a value for the search syntax
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Build the `products(query:)` search string for a scope
+ */
+export function buildProductSearchQuery(scope: ProductScope): string {
+  const terms: string[] = [];
+
+  if (scope.status !== 'any') terms.push(`status:${scope.status}`);
+  if (scope.vendor) terms.push(`vendor:${quote(scope.vendor)}`);
+  if (scope.productType) terms.push(`product_type:${quote(scope.productType)}`);
+  if (scope.tag) terms.push(`tag:${quote(scope.tag)}`);
+  if (scope.collectionId) {
+    const numericId = scope.collectionId.split('/').pop();
+    terms.push(`collection_id:${numericId}`);
+  }
+  if (scope.createdAfter) terms.push(`created_at:>=${scope.createdAfter}`);
+  if (scope.createdBefore) terms.push(`created_at:<=${scope.createdBefore}`);
+
+  return terms.join(' ');
+}
+
+/**
+ * Label for the products a scope covers, e.g. "Draft Products"
+ */
+export function describeProductScope(scope: ProductScope): string {
+  const status = PRODUCT_SCOPE_STATUSES.find((s) => s.value === scope.status);
+  return scope.status === 'any' ? 'Products' : `${status?.label} Products`;
+}
@@ -7,9 +7,14 @@ export interface ShopifyProduct {
   handle: string;
   title: string;
   status: string;
+  vendor?: string;
+  productType?: string;
   featuredImage: {
     url: string;
   } | null;
+  mediaCount?: {
+    count: number;
+  } | null;
   media: {
     edges: Array<{
       node: {
@@ -18,14 +23,42 @@ export interface ShopifyProduct {
       };
     }>;
   };
+  variants?: {
+    edges: Array<{
+      node: ShopifyVariant;
+    }>;
+  };
+}
+
+export interface ShopifyVariant {
+  id: string;
+  title: string;
+  sku?: string | null;
+  barcode?: string | null;
+  selectedOptions: Array<{
+    name: string;
+    value: string;
+  }>;
 }
 
 export interface ImageFile {
   name: string;
+  path: string; // Path relative to the drop, e.g. blue-widget/front.jpg; same as name for loose files
   size: number;
   type: string;
   previewUrl?: string;
   file?: File; // The actual File object for upload
+  sourceUrl?: string; // Remote URL Shopify imports the image from, instead of a file
+  matchKey?: string; // Product key given with the image, e.g. from a handle,url list; tried before the filename
+  contentHash?: string; // SHA-256 of the file's bytes; missing for remote images
+  info?: ImageInfo | null; // Decoded details for quality checks; null if the image couldn't be decoded
+}
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  hasAlpha: boolean; // Whether any pixel is at least partly transparent
+  cmyk: boolean; // JPEG stored in CMYK, which shops display with shifted colours
 }
 
 export interface StagedTarget {
@@ -36,11 +69,27 @@ export interface StagedTarget {
   filename: string;
 }
 
+export interface ProductSuggestion {
+  product: ShopifyProduct;
+  score: number; // Similarity from 0 to 1
+}
+
+export type MatchStrategyId = 'handle' | 'sku' | 'barcode' | 'title';
+
+export type MatchSource = 'auto' | 'manual' | 'manifest';
+
 export interface MatchResult {
   image: ImageFile;
   product: ShopifyProduct | null;
   matched: boolean;
-  handle: string;
+  handle: string; // Key read from the filename
+  position: number | null; // Gallery position from a numbered filename suffix
+  variants: ShopifyVariant[]; // Variants to attach the image to; empty for product-level images
+  variantTokens: string[]; // Option tokens from the filename, e.g. ['red'] for blue-widget--red.jpg
+  strategy: MatchStrategyId | null; // Strategy that found the product
+  source: MatchSource; // Whether the product was found automatically, assigned by the user or listed in a manifest
+  suggestions: ProductSuggestion[]; // Near matches for unmatched images, best first
+  alt?: string; // Alt text from a manifest
 }
 
 export interface MatchSummary {
@@ -48,13 +97,41 @@ export interface MatchSummary {
   matched: number;
   unmatched: number;
   results: MatchResult[];
+  manifestErrors: string[]; // Manifest rows that could not be applied
 }
 
+/**
+ * Processing status of product media, as reported by the Admin API
+ */
+export type MediaStatus = 'UPLOADED' | 'PROCESSING' | 'READY' | 'FAILED';
+
+/**
+ * What a run does with products that already have media
+ * `featured` appends the new images and moves them to the front of the gallery.
+ */
+export type ExistingMediaPolicy = 'append' | 'skip' | 'replace' | 'featured';
+
 export interface UploadResult {
   filename: string;
   productId: string;
   success: boolean;
   error?: string;
+  warning?: string;
+  mediaId?: string; // Media created by the upload
+  attempts?: number; // 1 plus the number of retried requests made for this file
+  mediaStatus?: MediaStatus; // Missing when no media was created
+  itemId?: string; // Upload history item the result is recorded on
+  skipped?: boolean; // Not uploaded because of the existing-media policy or as a duplicate
+}
+
+/**
+ * Why an image looks like one the product already has or will get
+ * `batch`: an earlier image in this batch has the same content and product.
+ * `uploaded`: the upload history shows the same content was added to the product before.
+ */
+export interface DuplicateImage {
+  reason: 'batch' | 'uploaded';
+  duplicateOf?: string; // Path of the earlier image in the batch
 }
 
 export interface UploadSummary {
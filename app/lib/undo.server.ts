@@ -0,0 +1,154 @@
+/**
+ * Upload Undo
+ * Deletes the media an upload job created and puts back the media its replace policy removed.
+ */
+
+import {
+  getUploadJobUndo,
+  markUploadJobUndone,
+  recordReplacedMediaRestored,
+  recordUploadItemUndo,
+} from "../models/UploadJob.server";
+import { DEFAULT_UPLOAD_CONCURRENCY, runGroupedConcurrently } from "./pool";
+import { attachStagedMedia, deleteProductMedia } from "./upload.server";
+import type { AdminGraphql } from "./upload.server";
+
+type JobUndo = NonNullable<Awaited<ReturnType<typeof getUploadJobUndo>>>;
+
+export interface UndoItemResult {
+  itemId: string;
+  filename: string;
+  productId: string;
+  productTitle: string | null;
+  success: boolean;
+  error?: string;
+}
+
+export interface RestoreResult {
+  productId: string;
+  productTitle: string | null;
+  restored: number;
+  failed: number;
+  error?: string;
+}
+
+async function deleteCreatedMedia(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+  items: JobUndo["items"],
+): Promise<UndoItemResult[]> {
+  let deletedIds: string[] = [];
+  let error: string | undefined;
+  try {
+    ({ deletedIds, error } = await deleteProductMedia(
+      admin,
+      shop,
+      productId,
+      items.map((item) => item.mediaId!),
+    ));
+  } catch (deleteError) {
+    console.error("Undo delete error:", deleteError);
+    error = deleteError instanceof Error ? deleteError.message : "Could not delete media";
+  }
+
+  const results: UndoItemResult[] = [];
+  for (const item of items) {
+    const success = deletedIds.includes(item.mediaId!);
+    const result = { success, error: success ? undefined : error || "Media was not found" };
+    await recordUploadItemUndo(shop, item.id, result);
+    results.push({
+      itemId: item.id,
+      filename: item.filename,
+      productId,
+      productTitle: item.productTitle,
+      ...result,
+    });
+  }
+  return results;
+}
+
+async function restoreReplacedMedia(
+  admin: AdminGraphql,
+  shop: string,
+  product: { id: string; title: string | null },
+  replaced: JobUndo["replacedMedia"],
+): Promise<RestoreResult> {
+  const productId = product.id;
+  // Only images can be restored; videos and 3D models have no URL to import them from
+  const restorable = replaced.filter((m) => m.url);
+  const restore: RestoreResult = {
+    productId,
+    productTitle: product.title,
+    restored: 0,
+    failed: replaced.length - restorable.length,
+  };
+
+  try {
+    const results = await attachStagedMedia(
+      admin,
+      shop,
+      restorable.map((m) => ({
+        originalSource: m.url!,
+        productId,
+        alt: m.alt ?? "",
+        variantIds: [],
+        position: m.position,
+      })),
+    );
+    for (const [index, result] of results.entries()) {
+      if (result.success && result.mediaId) {
+        await recordReplacedMediaRestored(shop, restorable[index].id, result.mediaId);
+        restore.restored++;
+      } else {
+        restore.failed++;
+        restore.error = result.error;
+      }
+    }
+  } catch (restoreError) {
+    console.error("Undo restore error:", restoreError);
+    restore.failed += restorable.length;
+    restore.error =
+      restoreError instanceof Error ? restoreError.message : "Could not restore media";
+  }
+  return restore;
+}
+
+/**
+ * Undo a finished job, a few products at a time
+ * A product's new media is deleted before its original media is restored, so the originals go
+ * back to their old positions. Returns null if the job doesn't exist or hasn't finished.
+ */
+export async function undoUploadJob(admin: AdminGraphql, shop: string, jobId: string) {
+  const job = await getUploadJobUndo(shop, jobId);
+  if (!job) return null;
+
+  const productIds = new Set([
+    ...job.items.map((item) => item.productId),
+    ...job.replacedMedia.map((m) => m.productId),
+  ]);
+  const items: UndoItemResult[] = [];
+  const restores: RestoreResult[] = [];
+
+  const undoProduct = async (productId: string) => {
+    const created = job.items.filter((item) => item.productId === productId);
+    const title = created[0]?.productTitle ?? null;
+    if (created.length > 0) {
+      items.push(...(await deleteCreatedMedia(admin, shop, productId, created)));
+    }
+
+    const replaced = job.replacedMedia.filter((m) => m.productId === productId);
+    if (replaced.length > 0) {
+      restores.push(await restoreReplacedMedia(admin, shop, { id: productId, title }, replaced));
+    }
+  };
+  await runGroupedConcurrently(
+    Array.from(productIds),
+    (productId) => productId,
+    DEFAULT_UPLOAD_CONCURRENCY,
+    undoProduct,
+  );
+
+  await markUploadJobUndone(shop, jobId);
+  return { items, restores };
+}
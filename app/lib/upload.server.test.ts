@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { attachStagedMedia, createStagedUploadTargets, finishMedia } from "./upload.server";
+import type { AdminGraphql, StagedMediaEntry } from "./upload.server";
+
+type Handler = (variables: Record<string, unknown>) => unknown;
+
+/**
+ * Stand-in for the Admin API client that answers each operation, by name, with a handler's data
+ */
+function fakeAdmin(handlers: Record<string, Handler>) {
+  const calls: Array<{ operation: string; variables: Record<string, unknown> }> = [];
+  const graphql = async (query: string, options?: { variables?: Record<string, unknown> }) => {
+    const operation = query.match(/(?:query|mutation) (\w+)/)?.[1] ?? "";
+    if (!handlers[operation]) throw new Error(`Unexpected operation: ${operation}`);
+    const variables = options?.variables ?? {};
+    calls.push({ operation, variables });
+    return new Response(JSON.stringify({ data: handlers[operation](variables) }));
+  };
+  return { admin: graphql as unknown as AdminGraphql, calls };
+}
+
+const target = (name: string) => ({
+  url: `https://storage.example/${name}`,
+  resourceUrl: `https://storage.example/${name}/resource`,
+  parameters: [],
+});
+
+const input = (filename: string) => ({ filename, mimeType: "image/png", fileSize: 100 });
+
+const entry = (name: string, productId = "product-1", position: number | null = null): StagedMediaEntry => ({
+  originalSource: `https://storage.example/${name}`,
+  productId,
+  alt: name,
+  variantIds: [],
+  position,
+});
+
+describe("createStagedUploadTargets", () => {
+  it("maps indexed errors to their input", async () => {
+    const { admin } = fakeAdmin({
+      stagedUploadsCreate: () => ({
+        stagedUploadsCreate: {
+          stagedTargets: [target("a"), null, target("c")],
+          userErrors: [{ field: ["input", "1", "fileSize"], message: "File is too large" }],
+        },
+      }),
+    });
+
+    const targets = await createStagedUploadTargets(admin, "shop", [input("a"), input("b"), input("c")]);
+    expect(targets.map((t) => t.target?.url ?? t.error)).toEqual([
+      "https://storage.example/a",
+      "File is too large",
+      "https://storage.example/c",
+    ]);
+  });
+
+  it("applies errors without an index to every input", async () => {
+    const { admin } = fakeAdmin({
+      stagedUploadsCreate: () => ({
+        stagedUploadsCreate: {
+          stagedTargets: [],
+          userErrors: [{ field: null, message: "Staged uploads are unavailable" }],
+        },
+      }),
+    });
+
+    const targets = await createStagedUploadTargets(admin, "shop", [input("a"), input("b")]);
+    expect(targets).toEqual([
+      { target: null, error: "Staged uploads are unavailable" },
+      { target: null, error: "Staged uploads are unavailable" },
+    ]);
+  });
+});
+
+describe("attachStagedMedia", () => {
+  // Failed requests are logged; keep the test output quiet
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("matches created media to the inputs Shopify accepted", async () => {
+    const { admin } = fakeAdmin({
+      ProductCreateMedia: () => ({
+        productCreateMedia: {
+          media: [
+            { id: "media-a", status: "UPLOADED" },
+            { id: "media-c", status: "UPLOADED" },
+          ],
+          mediaUserErrors: [{ field: ["media", "1", "originalSource"], message: "Invalid image" }],
+        },
+      }),
+    });
+
+    const results = await attachStagedMedia(admin, "shop", [entry("a"), entry("b"), entry("c")]);
+    expect(results.map((r) => [r.success, r.mediaId, r.error])).toEqual([
+      [true, "media-a", undefined],
+      [false, undefined, "Invalid image"],
+      [true, "media-c", undefined],
+    ]);
+  });
+
+  it("creates each product's media in its own request", async () => {
+    const { admin, calls } = fakeAdmin({
+      ProductCreateMedia: ({ productId }) => ({
+        productCreateMedia: {
+          media: [{ id: `media-${productId}`, status: "UPLOADED" }],
+          mediaUserErrors: [],
+        },
+      }),
+    });
+
+    const results = await attachStagedMedia(admin, "shop", [entry("a", "p1"), entry("b", "p2")]);
+    expect(calls.map((call) => call.operation)).toEqual(["ProductCreateMedia", "ProductCreateMedia"]);
+    expect(results.map((r) => r.mediaId)).toEqual(["media-p1", "media-p2"]);
+  });
+
+  it("fails only the files of a product whose request failed", async () => {
+    const { admin } = fakeAdmin({
+      ProductCreateMedia: ({ productId }) => {
+        if (productId === "p2") throw new Error("Product not found");
+        return {
+          productCreateMedia: { media: [{ id: "media-a", status: "UPLOADED" }], mediaUserErrors: [] },
+        };
+      },
+    });
+
+    const results = await attachStagedMedia(admin, "shop", [entry("a", "p1"), entry("b", "p2")]);
+    expect(results.map((r) => [r.success, r.mediaId, r.error])).toEqual([
+      [true, "media-a", undefined],
+      [false, undefined, "Product not found"],
+    ]);
+  });
+
+  it("keeps media that couldn't be moved as succeeded, with a warning", async () => {
+    const { admin } = fakeAdmin({
+      ProductCreateMedia: () => ({
+        productCreateMedia: { media: [{ id: "media-a", status: "UPLOADED" }], mediaUserErrors: [] },
+      }),
+      ProductReorderMedia: () => {
+        throw new Error("Internal error");
+      },
+    });
+
+    const [result] = await attachStagedMedia(admin, "shop", [entry("a", "p1", 0)]);
+    expect(result).toMatchObject({
+      success: true,
+      mediaId: "media-a",
+      warning: "Image added but not moved: Internal error",
+    });
+  });
+});
+
+describe("finishMedia", () => {
+  const ready = ({ ids }: Record<string, unknown>) => ({
+    nodes: (ids as string[]).map((id) => ({ id, status: "READY", mediaErrors: [] })),
+  });
+
+  it("attaches the first image of a variant and detaches the image it showed", async () => {
+    const { admin, calls } = fakeAdmin({
+      GetMediaStatuses: ready,
+      GetVariantMedia: () => ({
+        nodes: [{ id: "red", media: { nodes: [{ id: "old-red" }] } }],
+      }),
+      ProductVariantDetachMedia: () => ({ productVariantDetachMedia: { userErrors: [] } }),
+      ProductVariantAppendMedia: () => ({ productVariantAppendMedia: { userErrors: [] } }),
+    });
+
+    const results = await finishMedia(admin, "shop", [
+      { mediaId: "red-1", productId: "p1", variantIds: ["red"] },
+      { mediaId: "red-2", productId: "p1", variantIds: ["red"] },
+    ]);
+
+    const variables = (operation: string) => calls.find((call) => call.operation === operation)?.variables;
+    expect(variables("ProductVariantDetachMedia")?.variantMedia).toEqual([
+      { variantId: "red", mediaIds: ["old-red"] },
+    ]);
+    expect(variables("ProductVariantAppendMedia")?.variantMedia).toEqual([
+      { variantId: "red", mediaIds: ["red-1"] },
+    ]);
+    expect(results[0].warning).toBeUndefined();
+    expect(results[1].warning).toMatch(/not to every variant/);
+  });
+
+  it("reports variants whose current image couldn't be detached", async () => {
+    const { admin, calls } = fakeAdmin({
+      GetMediaStatuses: ready,
+      GetVariantMedia: () => ({
+        nodes: [
+          { id: "red", media: { nodes: [{ id: "old-red" }] } },
+          { id: "blue", media: { nodes: [] } },
+        ],
+      }),
+      ProductVariantDetachMedia: () => ({
+        productVariantDetachMedia: {
+          userErrors: [{ field: ["variantMedia", "0", "mediaIds"], message: "Media not found" }],
+        },
+      }),
+      ProductVariantAppendMedia: () => ({ productVariantAppendMedia: { userErrors: [] } }),
+    });
+
+    const results = await finishMedia(admin, "shop", [
+      { mediaId: "red-1", productId: "p1", variantIds: ["red"] },
+      { mediaId: "blue-1", productId: "p1", variantIds: ["blue"] },
+    ]);
+
+    expect(results[0].warning).toMatch(/couldn't be detached: Media not found/);
+    expect(results[1].warning).toBeUndefined();
+    expect(calls.find((call) => call.operation === "ProductVariantAppendMedia")?.variables.variantMedia).toEqual([
+      { variantId: "blue", mediaIds: ["blue-1"] },
+    ]);
+  });
+});
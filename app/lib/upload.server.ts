@@ -0,0 +1,1252 @@
+/**
+ * Shopify Upload Steps
+ * Stages files, attaches them to products, links them to variants and sets their alt text, then
+ * sets products that are ready to Active. Shared by the upload API route and the background worker.
+ */
+
+import type { authenticate } from "../shopify.server";
+import type { MediaStatus, StagedTarget } from "./types";
+
+// GraphQL mutation to create staged upload targets
+const STAGED_UPLOADS_CREATE = `#graphql
+  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets {
+        url
+        resourceUrl
+        parameters {
+          name
+          value
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to attach media to product
+const PRODUCT_CREATE_MEDIA = `#graphql
+  mutation ProductCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+    productCreateMedia(productId: $productId, media: $media) {
+      media {
+        id
+        status
+      }
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL query to check whether media has finished processing
+const GET_MEDIA_STATUSES = `#graphql
+  query GetMediaStatuses($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Media {
+        id
+        status
+        mediaErrors {
+          code
+          details
+          message
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to attach product media to variants
+const PRODUCT_VARIANT_APPEND_MEDIA = `#graphql
+  mutation ProductVariantAppendMedia($productId: ID!, $variantMedia: [ProductVariantAppendMediaInput!]!) {
+    productVariantAppendMedia(productId: $productId, variantMedia: $variantMedia) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL query for the media variants show now
+const GET_VARIANT_MEDIA = `#graphql
+  query GetVariantMedia($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        media(first: 10) {
+          nodes {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to detach media from variants, leaving it on the product
+const PRODUCT_VARIANT_DETACH_MEDIA = `#graphql
+  mutation ProductVariantDetachMedia($productId: ID!, $variantMedia: [ProductVariantDetachMediaInput!]!) {
+    productVariantDetachMedia(productId: $productId, variantMedia: $variantMedia) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL query to list a product's current media, with what's needed to restore it
+const GET_PRODUCT_MEDIA = `#graphql
+  query GetProductMedia($id: ID!) {
+    product(id: $id) {
+      media(first: 250) {
+        nodes {
+          id
+          alt
+          mediaContentType
+          ... on MediaImage {
+            image {
+              url
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to delete product media
+const PRODUCT_DELETE_MEDIA = `#graphql
+  mutation ProductDeleteMedia($productId: ID!, $mediaIds: [ID!]!) {
+    productDeleteMedia(productId: $productId, mediaIds: $mediaIds) {
+      deletedMediaIds
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to move media within a product's gallery
+const PRODUCT_REORDER_MEDIA = `#graphql
+  mutation ProductReorderMedia($id: ID!, $moves: [MoveInput!]!) {
+    productReorderMedia(id: $id, moves: $moves) {
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL query for the digests a translation must quote, so it applies to the current alt text
+const GET_TRANSLATABLE_MEDIA = `#graphql
+  query GetTranslatableMedia($resourceIds: [ID!]!) {
+    translatableResourcesByIds(first: 250, resourceIds: $resourceIds) {
+      nodes {
+        resourceId
+        translatableContent {
+          key
+          digest
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to save translations of one resource
+const TRANSLATIONS_REGISTER = `#graphql
+  mutation TranslationsRegister($resourceId: ID!, $translations: [TranslationInput!]!) {
+    translationsRegister(resourceId: $resourceId, translations: $translations) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL query to list a product's media with the values alt text templates use
+const GET_PRODUCT_MEDIA_ALT = `#graphql
+  query GetProductMediaAlt($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      handle
+      vendor
+      productType
+      media(first: 250) {
+        nodes {
+          id
+          alt
+          mediaContentType
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to change the alt text of existing files
+const FILE_UPDATE = `#graphql
+  mutation FileUpdate($files: [FileUpdateInput!]!) {
+    fileUpdate(files: $files) {
+      files {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL query to read what the publish-when-ready rules look at
+const GET_PRODUCT_READINESS = `#graphql
+  query GetProductReadiness($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      status
+      media(first: 250) {
+        nodes {
+          status
+        }
+      }
+      variants(first: 250) {
+        nodes {
+          price
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to change a product's status
+const PRODUCT_UPDATE_STATUS = `#graphql
+  mutation ProductUpdateStatus($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      product {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// GraphQL mutation to publish a product to sales channels
+const PUBLISHABLE_PUBLISH = `#graphql
+  mutation PublishablePublish($id: ID!, $input: [PublicationInput!]!) {
+    publishablePublish(id: $id, input: $input) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Shopify processes media after it is created; the worker polls with a growing interval until
+// each item is READY or FAILED, and gives up after the timeout. Requests check once and return.
+const MEDIA_POLL_INTERVAL_MS = 1000;
+const MEDIA_POLL_MAX_INTERVAL_MS = 5000;
+export const MEDIA_PROCESSING_TIMEOUT_MS = 90000;
+
+// Transient failures (throttling, 5xx responses, network errors) are retried with backoff
+const MAX_REQUEST_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 20000;
+
+// Before each request, wait until the shop's query cost bucket holds at least this many points
+const MIN_AVAILABLE_COST = 100;
+
+export type AdminGraphql = Awaited<ReturnType<typeof authenticate.admin>>["admin"]["graphql"];
+
+/**
+ * The subset of the Admin API client used here, so retrying wrappers can stand in for it
+ */
+export type GraphqlRequest = (
+  query: string,
+  options?: { variables?: Record<string, unknown> },
+  stats?: RetryStats,
+) => Promise<Response>;
+
+export interface UploadFileResult {
+  success: boolean;
+  error?: string;
+  warning?: string;
+  mediaId?: string;
+  attempts?: number; // 1 plus the number of retried requests made for this file
+  mediaStatus?: MediaStatus; // Processing status of the created media
+}
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+  observedAt: number;
+}
+
+// Last cost bucket seen for each shop, shared by every upload running in this process
+const throttleStatuses = new Map<string, ThrottleStatus>();
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter, so parallel uploads don't retry in lockstep
+ */
+function getRetryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function recordThrottleStatus(shop: string, body: unknown) {
+  const status = (body as { extensions?: { cost?: { throttleStatus?: Omit<ThrottleStatus, "observedAt"> } } })
+    ?.extensions?.cost?.throttleStatus;
+  if (status) {
+    throttleStatuses.set(shop, { ...status, observedAt: Date.now() });
+  }
+}
+
+/**
+ * Wait for the shop's cost bucket to refill when the last response left it low
+ */
+async function waitForCostBudget(shop: string) {
+  const status = throttleStatuses.get(shop);
+  if (!status || status.restoreRate <= 0) return;
+
+  const elapsedSeconds = (Date.now() - status.observedAt) / 1000;
+  const available = Math.min(
+    status.maximumAvailable,
+    status.currentlyAvailable + elapsedSeconds * status.restoreRate,
+  );
+  const needed = Math.min(MIN_AVAILABLE_COST, status.maximumAvailable);
+  if (available < needed) {
+    await sleep(((needed - available) / status.restoreRate) * 1000);
+  }
+}
+
+/**
+ * Tell whether a failed request is worth retrying
+ */
+function isTransientError(error: unknown): boolean {
+  // Requests made with an admin request's session rethrow HTTP errors as Responses
+  if (error instanceof Response) {
+    return error.status === 429 || error.status >= 500;
+  }
+  if (!error || typeof error !== "object") return false;
+
+  const { body, response } = error as {
+    body?: { errors?: { graphQLErrors?: Array<{ extensions?: { code?: string } }> } };
+    response?: { code?: number };
+  };
+  if (body?.errors?.graphQLErrors?.some((e) => e.extensions?.code === "THROTTLED")) {
+    return true;
+  }
+  if (response?.code) {
+    return response.code === 429 || response.code >= 500;
+  }
+  // Network failures: fetch rejects with a TypeError, the API library with an HttpRequestError
+  return error instanceof TypeError || (error as Error).name === "HttpRequestError";
+}
+
+interface RetryStats {
+  retries: number;
+}
+
+/**
+ * Wrap a shop's Admin API client so each request waits for cost budget and transient failures are retried
+ * Pass `stats` to a request to count its retries, e.g. towards the files it was made for.
+ */
+export function withRetries(graphql: AdminGraphql, shop: string): GraphqlRequest {
+  return async (query, options, stats) => {
+    for (let attempt = 1; ; attempt++) {
+      await waitForCostBudget(shop);
+      try {
+        const response = await graphql(query, options);
+        const body = await response.json();
+        recordThrottleStatus(shop, body);
+        return new Response(JSON.stringify(body));
+      } catch (error) {
+        recordThrottleStatus(shop, (error as { body?: unknown })?.body);
+        if (attempt >= MAX_REQUEST_ATTEMPTS || !isTransientError(error)) throw error;
+
+        if (stats) stats.retries++;
+        const retryAfter = (error as { retryAfter?: number })?.retryAfter;
+        await sleep(retryAfter ? retryAfter * 1000 : getRetryDelay(attempt));
+      }
+    }
+  };
+}
+
+/**
+ * POST to a staged upload target, retrying 5xx responses and network errors
+ */
+async function postWithRetries(url: string, body: FormData, stats: RetryStats): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(url, { method: "POST", body });
+      if (response.status < 500 || attempt >= MAX_REQUEST_ATTEMPTS) return response;
+      await response.body?.cancel();
+    } catch (error) {
+      if (attempt >= MAX_REQUEST_ATTEMPTS || !isTransientError(error)) throw error;
+    }
+
+    stats.retries++;
+    await sleep(getRetryDelay(attempt));
+  }
+}
+
+interface MediaProcessingResult {
+  status: MediaStatus;
+  error?: string;
+}
+
+/**
+ * Poll media until each item is READY or FAILED, or the timeout passes
+ * Media still processing at the timeout keep their last status; a timeout of 0 checks once.
+ */
+async function waitForMediaProcessing(
+  graphql: GraphqlRequest,
+  mediaIds: string[],
+  timeoutMs: number,
+): Promise<Map<string, MediaProcessingResult>> {
+  const results = new Map<string, MediaProcessingResult>(
+    mediaIds.map((id) => [id, { status: "UPLOADED" }]),
+  );
+  const deadline = Date.now() + timeoutMs;
+  let interval = MEDIA_POLL_INTERVAL_MS;
+  let pending = mediaIds;
+
+  while (pending.length > 0) {
+    const response = await graphql(GET_MEDIA_STATUSES, { variables: { ids: pending } });
+    const data = await response.json();
+    for (const node of data.data.nodes) {
+      if (!node?.id) continue;
+      const errors: Array<{ details: string | null; message: string }> = node.mediaErrors ?? [];
+      results.set(node.id, {
+        status: node.status,
+        error: errors.map((e) => e.details || e.message).join(", ") || undefined,
+      });
+    }
+
+    pending = pending.filter((id) => {
+      const { status } = results.get(id)!;
+      return status !== "READY" && status !== "FAILED";
+    });
+    if (pending.length === 0 || Date.now() + interval > deadline) break;
+
+    await sleep(interval);
+    interval = Math.min(interval * 1.5, MEDIA_POLL_MAX_INTERVAL_MS);
+  }
+
+  return results;
+}
+
+/**
+ * One file of an upload batch, with the product it belongs to
+ */
+export interface UploadBatchEntry {
+  file: File;
+  productId: string;
+  alt: string | null;
+  variantIds: string[];
+  position?: number | null; // Gallery position to move the new media to, counting from 0
+  altTranslations?: Record<string, string> | null; // Alt text for other shop languages, by locale
+}
+
+interface UserError {
+  field: string[] | null;
+  message: string;
+}
+
+/**
+ * Group user errors by the input index in their `field` path, e.g. ["input", "2", "fileSize"]
+ * Errors without an index apply to every input.
+ */
+function groupErrorsByIndex(errors: UserError[], count: number): string[][] {
+  const messages: string[][] = Array.from({ length: count }, () => []);
+  for (const error of errors) {
+    const index = Number(error.field?.find((part) => /^\d+$/.test(part)));
+    if (Number.isInteger(index) && index < count) {
+      messages[index].push(error.message);
+    } else {
+      messages.forEach((list) => list.push(error.message));
+    }
+  }
+  return messages;
+}
+
+/**
+ * Upload a file to a product through a staged upload, then attach it to variants
+ */
+export async function uploadFileToProduct(
+  admin: AdminGraphql,
+  shop: string,
+  entry: UploadBatchEntry,
+): Promise<UploadFileResult> {
+  const [result] = await uploadFilesToProducts(admin, shop, [entry]);
+  return result;
+}
+
+/**
+ * Upload a batch of files with one staged upload request and one media request per product
+ * Results are in the order of `entries`. Each request is throttled and retried on its own,
+ * so a retry never repeats a finished step.
+ */
+export async function uploadFilesToProducts(
+  admin: AdminGraphql,
+  shop: string,
+  entries: UploadBatchEntry[],
+): Promise<UploadFileResult[]> {
+  return uploadBatch(withRetries(admin, shop), entries);
+}
+
+async function uploadBatch(
+  graphql: GraphqlRequest,
+  entries: UploadBatchEntry[],
+): Promise<UploadFileResult[]> {
+  const results: Array<UploadFileResult | null> = entries.map(() => null);
+  const resourceUrls: string[] = [];
+
+  // Step 1: Create staged upload targets for the whole batch; its retries count for every file
+  const targetStats: RetryStats = { retries: 0 };
+  const staged = await createTargets(
+    graphql,
+    entries.map(({ file }) => ({
+      filename: file.name,
+      mimeType: file.type || "image/png",
+      fileSize: file.size,
+    })),
+    targetStats,
+  );
+  const retries = entries.map(() => targetStats.retries);
+
+  // Step 2: Upload each file to its staged URL (server-side)
+  await Promise.all(
+    entries.map(async ({ file }, index) => {
+      const { target, error } = staged[index];
+      if (!target) {
+        results[index] = { success: false, error, attempts: retries[index] + 1 };
+        return;
+      }
+
+      const uploadFormData = new FormData();
+      for (const param of target.parameters) {
+        uploadFormData.append(param.name, param.value);
+      }
+      uploadFormData.append("file", file);
+
+      const postStats: RetryStats = { retries: 0 };
+      const uploadResponse = await postWithRetries(target.url, uploadFormData, postStats);
+      retries[index] += postStats.retries;
+      if (!uploadResponse.ok) {
+        const errorText = await uploadResponse.text();
+        console.error("Staged upload failed:", errorText);
+        results[index] = {
+          success: false,
+          error: `Upload failed: ${uploadResponse.status}`,
+          attempts: retries[index] + 1,
+        };
+        return;
+      }
+      resourceUrls[index] = target.resourceUrl;
+    }),
+  );
+
+  // Steps 3 and 4: Attach the staged files to their products and variants
+  const stagedIndexes = entries.map((_, index) => index).filter((index) => !results[index]);
+  const attached = await attachMedia(
+    graphql,
+    stagedIndexes.map((index) => ({
+      originalSource: resourceUrls[index],
+      productId: entries[index].productId,
+      alt: entries[index].alt || entries[index].file.name.replace(/\.[^.]+$/, ""),
+      variantIds: entries[index].variantIds,
+      position: entries[index].position,
+      altTranslations: entries[index].altTranslations,
+    })),
+    stagedIndexes.map((index) => retries[index]),
+  );
+  stagedIndexes.forEach((entryIndex, attachedIndex) => {
+    results[entryIndex] = attached[attachedIndex];
+  });
+
+  return results as UploadFileResult[];
+}
+
+/**
+ * A file the browser wants to upload straight to storage
+ */
+export interface StagedUploadInput {
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+}
+
+type StagedUploadTarget = Omit<StagedTarget, "productId" | "filename">;
+
+/**
+ * Create a staged upload target for each input in one request
+ * Inputs rejected by Shopify come back with an error instead of a target.
+ */
+async function createTargets(
+  graphql: GraphqlRequest,
+  inputs: StagedUploadInput[],
+  stats?: RetryStats,
+): Promise<Array<{ target: StagedUploadTarget | null; error?: string }>> {
+  const stagedResponse = await graphql(
+    STAGED_UPLOADS_CREATE,
+    {
+      variables: {
+        input: inputs.map((input) => ({
+          filename: input.filename,
+          mimeType: input.mimeType,
+          fileSize: input.fileSize.toString(),
+          resource: "IMAGE",
+        })),
+      },
+    },
+    stats,
+  );
+  const stagedData = await stagedResponse.json();
+  const stagedErrors = groupErrorsByIndex(
+    stagedData.data.stagedUploadsCreate.userErrors,
+    inputs.length,
+  );
+  const targets: Array<StagedUploadTarget | null> =
+    stagedData.data.stagedUploadsCreate.stagedTargets ?? [];
+
+  return inputs.map((_, index) =>
+    stagedErrors[index].length === 0 && targets[index]
+      ? { target: targets[index] }
+      : { target: null, error: stagedErrors[index].join(", ") || "No upload target was created" },
+  );
+}
+
+/**
+ * Create staged upload targets that the browser posts files to directly
+ */
+export async function createStagedUploadTargets(
+  admin: AdminGraphql,
+  shop: string,
+  inputs: StagedUploadInput[],
+) {
+  return createTargets(withRetries(admin, shop), inputs);
+}
+
+/**
+ * An image ready to attach to a product
+ */
+export interface StagedMediaEntry {
+  originalSource: string; // Staged upload resource URL, or any public image URL
+  productId: string;
+  alt: string;
+  variantIds: string[];
+  position?: number | null; // Gallery position to move the new media to, counting from 0
+  altTranslations?: Record<string, string> | null; // Alt text for other shop languages, by locale
+}
+
+/**
+ * Attach images to their products, one media request per product, then move them and translate their alt text
+ * Returns as soon as the media is created; `finishMedia` checks its processing and attaches it to
+ * variants once it is ready.
+ * Results are in the order of `entries`. `retries` holds the retries already made for each entry,
+ * e.g. while staging its file; retries of a product's media request count for each of its files.
+ */
+async function attachMedia(
+  graphql: GraphqlRequest,
+  entries: StagedMediaEntry[],
+  retries: number[] = entries.map(() => 0),
+): Promise<UploadFileResult[]> {
+  const results: Array<UploadFileResult | null> = entries.map(() => null);
+
+  // Group the files by product, keeping their order
+  const productEntries = new Map<string, number[]>();
+  entries.forEach(({ productId }, index) => {
+    productEntries.set(productId, [...(productEntries.get(productId) ?? []), index]);
+  });
+
+  // Step 3: Attach all of each product's media in one request; a failed request only fails that
+  // product's files, so media already created for other products is still reported
+  for (const [productId, indexes] of productEntries) {
+    const mediaStats: RetryStats = { retries: 0 };
+    let mediaData;
+    try {
+      const mediaResponse = await graphql(
+        PRODUCT_CREATE_MEDIA,
+        {
+          variables: {
+            productId,
+            media: indexes.map((index) => ({
+              originalSource: entries[index].originalSource,
+              mediaContentType: "IMAGE",
+              alt: entries[index].alt,
+            })),
+          },
+        },
+        mediaStats,
+      );
+      mediaData = await mediaResponse.json();
+    } catch (error) {
+      console.error("Create media error:", error);
+      for (const index of indexes) {
+        results[index] = {
+          success: false,
+          error: error instanceof Error ? error.message : "Upload failed",
+          attempts: retries[index] + mediaStats.retries + 1,
+        };
+      }
+      continue;
+    }
+    const mediaErrors = groupErrorsByIndex(
+      mediaData.data.productCreateMedia.mediaUserErrors,
+      indexes.length,
+    );
+
+    // Created media come back in input order, without the inputs that were rejected
+    const created: Array<{ id: string }> = [...(mediaData.data.productCreateMedia.media ?? [])];
+    indexes.forEach((entryIndex, mediaIndex) => {
+      const mediaId = mediaErrors[mediaIndex].length === 0 ? created.shift()?.id : undefined;
+      const attempts = retries[entryIndex] + mediaStats.retries + 1;
+      results[entryIndex] = mediaId
+        ? { success: true, mediaId, attempts, mediaStatus: "UPLOADED" }
+        : {
+            success: false,
+            error: mediaErrors[mediaIndex].join(", ") || "No media was created",
+            attempts,
+          };
+    });
+  }
+
+  // The media exists from here on, so later steps only add warnings: a failed result would
+  // leave the media out of undo and have the worker upload it again
+
+  // Step 4: Move media that should lead the gallery, e.g. to become the featured image
+  for (const [productId, indexes] of productEntries) {
+    const moved = indexes.filter(
+      (index) => results[index]!.success && entries[index].position != null,
+    );
+    if (moved.length === 0) continue;
+
+    let reorderError: string | undefined;
+    try {
+      const reorderResponse = await graphql(PRODUCT_REORDER_MEDIA, {
+        variables: {
+          id: productId,
+          moves: moved.map((index) => ({
+            id: results[index]!.mediaId,
+            newPosition: String(entries[index].position),
+          })),
+        },
+      });
+      const reorderData = await reorderResponse.json();
+      const reorderErrors: UserError[] = reorderData.data.productReorderMedia.mediaUserErrors;
+      if (reorderErrors.length > 0) {
+        reorderError = reorderErrors.map((e) => e.message).join(", ");
+      }
+    } catch (error) {
+      console.error("Reorder media error:", error);
+      reorderError = error instanceof Error ? error.message : "Request failed";
+    }
+    if (reorderError) {
+      for (const index of moved) {
+        results[index]!.warning = `Image added but not moved: ${reorderError}`;
+      }
+    }
+  }
+
+  // Step 5: Translate the alt text into the shop's other languages
+  const translated = entries
+    .map((entry, index) => ({ mediaId: results[index]!.mediaId, translations: entry.altTranslations }))
+    .filter(
+      (entry, index): entry is { mediaId: string; translations: Record<string, string> } =>
+        results[index]!.success && !!entry.mediaId && Object.keys(entry.translations ?? {}).length > 0,
+    );
+  if (translated.length > 0) {
+    let translationErrors: Map<string, string>;
+    try {
+      translationErrors = await registerAltTranslations(graphql, translated);
+    } catch (error) {
+      console.error("Translate alt text error:", error);
+      const message = error instanceof Error ? error.message : "Request failed";
+      translationErrors = new Map(translated.map(({ mediaId }) => [mediaId, message]));
+    }
+    entries.forEach((_, index) => {
+      const error = translationErrors.get(results[index]!.mediaId ?? "");
+      if (error) {
+        results[index]!.warning = `Image added but its alt text wasn't translated: ${error}`;
+      }
+    });
+  }
+
+  return results as UploadFileResult[];
+}
+
+/**
+ * Save translated alt text for media
+ * Returns the errors by media ID; media without an error was translated.
+ */
+async function registerAltTranslations(
+  graphql: GraphqlRequest,
+  entries: Array<{ mediaId: string; translations: Record<string, string> }>,
+): Promise<Map<string, string>> {
+  const errors = new Map<string, string>();
+
+  const digestResponse = await graphql(GET_TRANSLATABLE_MEDIA, {
+    variables: { resourceIds: entries.map((entry) => entry.mediaId) },
+  });
+  const digestData = await digestResponse.json();
+  const digests = new Map<string, string>();
+  for (const node of digestData.data.translatableResourcesByIds.nodes as Array<{
+    resourceId: string;
+    translatableContent: Array<{ key: string; digest: string | null }>;
+  }>) {
+    const alt = node.translatableContent.find((content) => content.key === "alt");
+    if (alt?.digest) digests.set(node.resourceId, alt.digest);
+  }
+
+  for (const { mediaId, translations } of entries) {
+    const digest = digests.get(mediaId);
+    if (!digest) {
+      errors.set(mediaId, "The image has no alt text to translate");
+      continue;
+    }
+
+    const response = await graphql(TRANSLATIONS_REGISTER, {
+      variables: {
+        resourceId: mediaId,
+        translations: Object.entries(translations).map(([locale, value]) => ({
+          key: "alt",
+          locale,
+          value,
+          translatableContentDigest: digest,
+        })),
+      },
+    });
+    const data = await response.json();
+    const userErrors: UserError[] = data.data.translationsRegister.userErrors;
+    if (userErrors.length > 0) {
+      errors.set(mediaId, userErrors.map((e) => e.message).join(", "));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Attach images the browser uploaded to staged storage, or remote images by URL
+ */
+export async function attachStagedMedia(
+  admin: AdminGraphql,
+  shop: string,
+  entries: StagedMediaEntry[],
+): Promise<UploadFileResult[]> {
+  return attachMedia(withRetries(admin, shop), entries);
+}
+
+/**
+ * Have Shopify import a remote image straight from its URL
+ */
+export async function createMediaFromUrl(
+  admin: AdminGraphql,
+  shop: string,
+  imageUrl: string,
+  productId: string,
+  alt: string,
+  position: number | null = null,
+  altTranslations: Record<string, string> | null = null,
+): Promise<UploadFileResult> {
+  const [result] = await attachStagedMedia(admin, shop, [
+    { originalSource: imageUrl, productId, alt, variantIds: [], position, altTranslations },
+  ]);
+  return result;
+}
+
+/**
+ * Media created by an upload, with the variants to attach it to once it is ready
+ */
+export interface CreatedMediaEntry {
+  mediaId: string;
+  productId: string;
+  variantIds: string[];
+}
+
+export interface MediaFinishResult {
+  mediaId: string;
+  mediaStatus: MediaStatus;
+  error?: string; // Why Shopify could not process the media
+  warning?: string; // The media is ready but wasn't attached to its variants
+}
+
+/**
+ * Check the processing status of created media and attach the media that is ready to its variants
+ * Checks once unless given a timeout, so a request never waits on Shopify; callers check again
+ * later for media still processing. Results are in the order of `entries`.
+ */
+export async function finishMedia(
+  admin: AdminGraphql,
+  shop: string,
+  entries: CreatedMediaEntry[],
+  timeoutMs = 0,
+): Promise<MediaFinishResult[]> {
+  if (entries.length === 0) return [];
+
+  const graphql = withRetries(admin, shop);
+  const processing = await waitForMediaProcessing(
+    graphql,
+    entries.map((entry) => entry.mediaId),
+    timeoutMs,
+  );
+  const results: MediaFinishResult[] = entries.map(({ mediaId }) => {
+    const { status, error } = processing.get(mediaId)!;
+    return status === "FAILED"
+      ? {
+          mediaId,
+          mediaStatus: status,
+          error: `Shopify could not process the image${error ? `: ${error}` : ""}`,
+        }
+      : { mediaId, mediaStatus: status };
+  });
+
+  // Attach ready media to the variants named in the filenames, a few requests per product.
+  // A variant shows one image, so it gets the first of its entries and keeps no earlier image.
+  const productEntries = new Map<string, number[]>();
+  entries.forEach(({ productId, variantIds }, index) => {
+    if (variantIds.length === 0 || results[index].mediaStatus !== "READY") return;
+    productEntries.set(productId, [...(productEntries.get(productId) ?? []), index]);
+  });
+
+  for (const [productId, indexes] of productEntries) {
+    const variantEntries = new Map<string, number>();
+    for (const index of indexes) {
+      const variantIds = entries[index].variantIds.filter((variantId) => !variantEntries.has(variantId));
+      if (variantIds.length < entries[index].variantIds.length) {
+        results[index].warning =
+          "Image added to product but not to every variant: an earlier image was attached to them";
+      }
+      variantIds.forEach((variantId) => variantEntries.set(variantId, index));
+    }
+
+    let variantErrors: Map<string, string>;
+    try {
+      variantErrors = await setVariantMedia(
+        graphql,
+        productId,
+        Array.from(variantEntries, ([variantId, index]) => ({
+          variantId,
+          mediaId: entries[index].mediaId,
+        })),
+      );
+    } catch (error) {
+      console.error("Attach variant media error:", error);
+      const message = error instanceof Error ? error.message : "Request failed";
+      variantErrors = new Map(Array.from(variantEntries.keys(), (variantId) => [variantId, message]));
+    }
+    for (const [variantId, error] of variantErrors) {
+      results[variantEntries.get(variantId)!].warning =
+        `Image added to product but not to variants: ${error}`;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Make each variant show the given media, detaching the media it shows now
+ * Returns the errors by variant ID; variants without an error show their new media.
+ */
+async function setVariantMedia(
+  graphql: GraphqlRequest,
+  productId: string,
+  variantMedia: Array<{ variantId: string; mediaId: string }>,
+): Promise<Map<string, string>> {
+  const errors = new Map<string, string>();
+
+  const currentResponse = await graphql(GET_VARIANT_MEDIA, {
+    variables: { ids: variantMedia.map(({ variantId }) => variantId) },
+  });
+  const currentData = await currentResponse.json();
+  const current = new Map<string, string[]>();
+  for (const node of currentData.data.nodes as Array<{
+    id?: string;
+    media?: { nodes: Array<{ id: string }> };
+  } | null>) {
+    if (node?.id && node.media) current.set(node.id, node.media.nodes.map((m) => m.id));
+  }
+  const detach = variantMedia
+    .map(({ variantId, mediaId }) => ({
+      variantId,
+      mediaIds: (current.get(variantId) ?? []).filter((id) => id !== mediaId),
+    }))
+    .filter(({ mediaIds }) => mediaIds.length > 0);
+
+  if (detach.length > 0) {
+    const detachResponse = await graphql(PRODUCT_VARIANT_DETACH_MEDIA, {
+      variables: { productId, variantMedia: detach },
+    });
+    const detachData = await detachResponse.json();
+    const detachErrors = groupErrorsByIndex(
+      detachData.data.productVariantDetachMedia.userErrors,
+      detach.length,
+    );
+    detach.forEach(({ variantId }, index) => {
+      if (detachErrors[index].length > 0) {
+        errors.set(variantId, `its current image couldn't be detached: ${detachErrors[index].join(", ")}`);
+      }
+    });
+  }
+
+  const append = variantMedia.filter(
+    ({ variantId, mediaId }) => !errors.has(variantId) && !current.get(variantId)?.includes(mediaId),
+  );
+  if (append.length === 0) return errors;
+
+  const appendResponse = await graphql(PRODUCT_VARIANT_APPEND_MEDIA, {
+    variables: {
+      productId,
+      variantMedia: append.map(({ variantId, mediaId }) => ({ variantId, mediaIds: [mediaId] })),
+    },
+  });
+  const appendData = await appendResponse.json();
+  const appendErrors = groupErrorsByIndex(
+    appendData.data.productVariantAppendMedia.userErrors,
+    append.length,
+  );
+  append.forEach(({ variantId }, index) => {
+    if (appendErrors[index].length > 0) {
+      errors.set(variantId, appendErrors[index].join(", "));
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * An image removed from a product by the replace policy
+ */
+export interface RemovedMedia {
+  mediaId: string;
+  url: string | null; // Missing for videos and 3D models, which can't be restored from a URL
+  alt: string | null;
+  position: number;
+}
+
+/**
+ * Delete all of a product's existing media so a run can replace it
+ * Returns what was deleted, so the run can be undone later.
+ */
+export async function removeProductMedia(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+): Promise<{ removed: RemovedMedia[]; error?: string }> {
+  const graphql = withRetries(admin, shop);
+  const mediaResponse = await graphql(GET_PRODUCT_MEDIA, { variables: { id: productId } });
+  const mediaData = await mediaResponse.json();
+  const media: Array<{ id: string; alt: string | null; image?: { url: string } | null }> =
+    mediaData.data.product?.media.nodes ?? [];
+  if (media.length === 0) {
+    return { removed: [] };
+  }
+
+  const { deletedIds, error } = await deleteMedia(
+    graphql,
+    productId,
+    media.map((m) => m.id),
+  );
+
+  return {
+    removed: media
+      .map((m, position) => ({
+        mediaId: m.id,
+        url: m.image?.url ?? null,
+        alt: m.alt,
+        position,
+      }))
+      .filter((m) => deletedIds.includes(m.mediaId)),
+    error,
+  };
+}
+
+async function deleteMedia(
+  graphql: GraphqlRequest,
+  productId: string,
+  mediaIds: string[],
+): Promise<{ deletedIds: string[]; error?: string }> {
+  const deleteResponse = await graphql(PRODUCT_DELETE_MEDIA, {
+    variables: { productId, mediaIds },
+  });
+  const deleteData = await deleteResponse.json();
+  const deleteErrors: UserError[] = deleteData.data.productDeleteMedia.mediaUserErrors;
+
+  return {
+    deletedIds: deleteData.data.productDeleteMedia.deletedMediaIds ?? [],
+    error: deleteErrors.length > 0 ? deleteErrors.map((e) => e.message).join(", ") : undefined,
+  };
+}
+
+/**
+ * Delete media from a product, e.g. the media an upload run created
+ * Media that was already deleted in the admin is reported as not deleted.
+ */
+export async function deleteProductMedia(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+  mediaIds: string[],
+): Promise<{ deletedIds: string[]; error?: string }> {
+  return deleteMedia(withRetries(admin, shop), productId, mediaIds);
+}
+
+export interface ProductMediaAlt {
+  product: { id: string; title: string; handle: string; vendor: string; productType: string };
+  media: Array<{ id: string; alt: string | null }>; // Images only, in gallery order
+}
+
+/**
+ * Get a product's images and the product values alt text templates use
+ */
+export async function getProductMediaAlt(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+): Promise<ProductMediaAlt | null> {
+  const graphql = withRetries(admin, shop);
+  const response = await graphql(GET_PRODUCT_MEDIA_ALT, { variables: { id: productId } });
+  const data = await response.json();
+  const product = data.data.product;
+  if (!product) return null;
+
+  const { media, ...fields } = product;
+  return {
+    product: fields,
+    media: (media.nodes as Array<{ id: string; alt: string | null; mediaContentType: string }>)
+      .filter((m) => m.mediaContentType === "IMAGE")
+      .map(({ id, alt }) => ({ id, alt })),
+  };
+}
+
+/**
+ * Set the alt text of existing images, and optionally its translations
+ * Returns how many images got their new alt text, and what went wrong if anything did.
+ */
+export async function updateMediaAlt(
+  admin: AdminGraphql,
+  shop: string,
+  updates: Array<{ mediaId: string; alt: string; translations?: Record<string, string> }>,
+): Promise<{ updated: number; error?: string }> {
+  if (updates.length === 0) return { updated: 0 };
+  const graphql = withRetries(admin, shop);
+
+  const response = await graphql(FILE_UPDATE, {
+    variables: { files: updates.map(({ mediaId, alt }) => ({ id: mediaId, alt })) },
+  });
+  const data = await response.json();
+  const userErrors: UserError[] = data.data.fileUpdate.userErrors;
+  if (userErrors.length > 0) {
+    return { updated: 0, error: userErrors.map((e) => e.message).join(", ") };
+  }
+
+  const translated = updates.filter(
+    (update): update is { mediaId: string; alt: string; translations: Record<string, string> } =>
+      Object.keys(update.translations ?? {}).length > 0,
+  );
+  const translationErrors =
+    translated.length > 0 ? await registerAltTranslations(graphql, translated) : new Map();
+  return {
+    updated: updates.length,
+    error:
+      translationErrors.size > 0
+        ? `Alt text saved but not translated: ${Array.from(new Set(translationErrors.values())).join(", ")}`
+        : undefined,
+  };
+}
+
+export interface ProductStatusDetails {
+  title: string;
+  status: string;
+  mediaCount: number;
+  unreadyMediaCount: number;
+  unpricedVariantCount: number;
+}
+
+/**
+ * Read a product's status, media processing and prices, or null if it no longer exists
+ */
+export async function getProductStatusDetails(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+): Promise<ProductStatusDetails | null> {
+  const graphql = withRetries(admin, shop);
+  const response = await graphql(GET_PRODUCT_READINESS, { variables: { id: productId } });
+  const data = await response.json();
+  const product = data.data.product;
+  if (!product) return null;
+
+  const media: Array<{ status: MediaStatus }> = product.media.nodes;
+  const variants: Array<{ price: string | null }> = product.variants.nodes;
+  return {
+    title: product.title,
+    status: product.status,
+    mediaCount: media.length,
+    unreadyMediaCount: media.filter((m) => m.status !== "READY").length,
+    unpricedVariantCount: variants.filter((v) => !(Number(v.price) > 0)).length,
+  };
+}
+
+/**
+ * Set a product's status, e.g. to ACTIVE once it has its images
+ */
+export async function updateProductStatus(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+  status: "ACTIVE" | "DRAFT" | "ARCHIVED",
+): Promise<{ success: boolean; error?: string }> {
+  const graphql = withRetries(admin, shop);
+  const response = await graphql(PRODUCT_UPDATE_STATUS, {
+    variables: { product: { id: productId, status } },
+  });
+  const data = await response.json();
+  const userErrors: UserError[] = data.data.productUpdate.userErrors;
+  if (userErrors.length > 0) {
+    return { success: false, error: userErrors.map((e) => e.message).join(", ") };
+  }
+  return { success: true };
+}
+
+/**
+ * Publish a product to the given sales channels
+ */
+export async function publishProduct(
+  admin: AdminGraphql,
+  shop: string,
+  productId: string,
+  publicationIds: string[],
+): Promise<{ success: boolean; error?: string }> {
+  if (publicationIds.length === 0) return { success: true };
+  const graphql = withRetries(admin, shop);
+  const response = await graphql(PUBLISHABLE_PUBLISH, {
+    variables: { id: productId, input: publicationIds.map((publicationId) => ({ publicationId })) },
+  });
+  const data = await response.json();
+  const userErrors: UserError[] = data.data.publishablePublish.userErrors;
+  if (userErrors.length > 0) {
+    return { success: false, error: userErrors.map((e) => e.message).join(", ") };
+  }
+  return { success: true };
+}
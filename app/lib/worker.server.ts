@@ -0,0 +1,323 @@
+/**
+ * Background Upload Worker
+ * Works through queued upload items in the database so a batch keeps going after the browser
+ * tab that started it is closed. Files are staged on the server's disk before they are queued.
+ * Needs a long-lived server process, and UPLOAD_STAGING_DIR on storage shared by every instance.
+ */
+
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { unauthenticated } from "../shopify.server";
+import {
+  claimNextUploadItems,
+  completeUploadJobIfDone,
+  recordUploadItemResult,
+  requeueStaleUploadItems,
+  requeueUploadItem,
+} from "../models/UploadJob.server";
+import { publishJobProducts } from "./publish.server";
+import {
+  attachStagedMedia,
+  finishMedia,
+  uploadFilesToProducts,
+  MEDIA_PROCESSING_TIMEOUT_MS,
+} from "./upload.server";
+import type {
+  AdminGraphql,
+  MediaFinishResult,
+  UploadBatchEntry,
+  UploadFileResult,
+} from "./upload.server";
+import {
+  DEFAULT_UPLOAD_CONCURRENCY,
+  MAX_BATCH_FILES,
+  packIntoBatches,
+  runGroupedConcurrently,
+} from "./pool";
+
+const STAGING_DIR =
+  process.env.UPLOAD_STAGING_DIR || path.join(os.tmpdir(), "bulk-image-uploads");
+
+// An item processing for longer than this was left behind by a worker that stopped
+const STALE_ITEM_MS = 15 * 60 * 1000;
+
+// Requests are already retried inside each upload; this covers errors that outlast those retries
+const MAX_ITEM_ATTEMPTS = 3;
+
+// Items claimed per round: enough for a few upload batches to run side by side, polled together
+const WORKER_ROUND_SIZE = MAX_BATCH_FILES * DEFAULT_UPLOAD_CONCURRENCY;
+
+type ClaimedItem = Awaited<ReturnType<typeof claimNextUploadItems>>[number];
+
+/**
+ * Write an uploaded file to the staging directory
+ * Only pass ids read back from the database: they are used as path segments.
+ */
+export async function stageUploadFile(jobId: string, itemId: string, file: File): Promise<string> {
+  const directory = path.join(STAGING_DIR, jobId);
+  await mkdir(directory, { recursive: true });
+
+  const stagedPath = path.join(directory, itemId);
+  await writeFile(stagedPath, Buffer.from(await file.arrayBuffer()));
+  return stagedPath;
+}
+
+/**
+ * Remove a staged file that was never queued
+ */
+export async function discardStagedFile(stagedPath: string) {
+  await rm(stagedPath, { force: true });
+}
+
+/**
+ * What one round of the worker got for its items, by item ID
+ */
+interface WorkerRound {
+  results: Map<string, UploadFileResult>;
+  errors: Map<string, unknown>; // Items whose requests threw; retried while they have attempts left
+}
+
+function defaultAlt(item: ClaimedItem) {
+  return item.alt || path.posix.basename(item.filename).replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Have Shopify import remote images straight from their URLs, one media request per product
+ */
+async function uploadRemoteItems(
+  admin: AdminGraphql,
+  shop: string,
+  items: ClaimedItem[],
+  round: WorkerRound,
+) {
+  if (items.length === 0) return;
+
+  try {
+    const results = await attachStagedMedia(
+      admin,
+      shop,
+      items.map((item) => ({
+        originalSource: item.sourceUrl!,
+        productId: item.productId,
+        alt: defaultAlt(item),
+        variantIds: item.variantIds,
+        position: item.position,
+        altTranslations: item.altTranslations as Record<string, string> | null,
+      })),
+    );
+    results.forEach((result, index) => round.results.set(items[index].id, result));
+  } catch (error) {
+    items.forEach((item) => round.errors.set(item.id, error));
+  }
+}
+
+/**
+ * Upload staged files in batches, a few batches at a time, keeping each product's files in order
+ * Files are read from disk only when their batch runs, and a batch that throws only fails its own
+ * items.
+ */
+async function uploadStagedItems(
+  admin: AdminGraphql,
+  shop: string,
+  items: ClaimedItem[],
+  round: WorkerRound,
+) {
+  const staged: Array<{ item: ClaimedItem; size: number }> = [];
+  for (const item of items) {
+    if (!item.stagedPath) {
+      round.results.set(item.id, { success: false, error: "File was not staged on the server" });
+      continue;
+    }
+    // A missing file fails when its batch reads it
+    const size = await stat(item.stagedPath).then((stats) => stats.size, () => 0);
+    staged.push({ item, size });
+  }
+
+  const batches = packIntoBatches(
+    staged,
+    ({ item }) => item.productId,
+    ({ size }) => size,
+  );
+  await runGroupedConcurrently(
+    batches,
+    (batch) => batch[0].item.productId,
+    DEFAULT_UPLOAD_CONCURRENCY,
+    async (batch) => {
+      const entries: Array<{ item: ClaimedItem; entry: UploadBatchEntry }> = [];
+      for (const { item } of batch) {
+        try {
+          const data = await readFile(item.stagedPath!);
+          const file = new File([data], path.posix.basename(item.filename), {
+            type: item.mimeType ?? "",
+          });
+          entries.push({
+            item,
+            entry: {
+              file,
+              productId: item.productId,
+              alt: item.alt,
+              variantIds: item.variantIds,
+              position: item.position,
+              altTranslations: item.altTranslations as Record<string, string> | null,
+            },
+          });
+        } catch (error) {
+          round.errors.set(item.id, error);
+        }
+      }
+      if (entries.length === 0) return;
+
+      try {
+        const results = await uploadFilesToProducts(admin, shop, entries.map(({ entry }) => entry));
+        results.forEach((result, index) => round.results.set(entries[index].item.id, result));
+      } catch (error) {
+        entries.forEach(({ item }) => round.errors.set(item.id, error));
+      }
+    },
+  );
+}
+
+/**
+ * Wait for Shopify to process the round's media, then attach it to the items' variants
+ * All of the round's media is polled together. The worker isn't tied to a request, so it can
+ * wait here instead of leaving it to the browser.
+ */
+async function finishRoundMedia(
+  admin: AdminGraphql,
+  shop: string,
+  items: ClaimedItem[],
+  round: WorkerRound,
+) {
+  const created = items.filter((item) => {
+    const result = round.results.get(item.id);
+    return result?.success && result.mediaId;
+  });
+  if (created.length === 0) return;
+
+  let finished: MediaFinishResult[];
+  try {
+    finished = await finishMedia(
+      admin,
+      shop,
+      created.map((item) => ({
+        mediaId: round.results.get(item.id)!.mediaId!,
+        productId: item.productId,
+        variantIds: item.variantIds,
+      })),
+      MEDIA_PROCESSING_TIMEOUT_MS,
+    );
+  } catch (error) {
+    // The media exists, so the items must not be retried and uploaded twice
+    console.error("Processing check of uploaded media failed:", error);
+    for (const item of created) {
+      const result = round.results.get(item.id)!;
+      round.results.set(item.id, {
+        ...result,
+        warning: "Image added but its processing couldn't be checked",
+      });
+    }
+    return;
+  }
+
+  created.forEach((item, index) => {
+    const result = round.results.get(item.id)!;
+    const { mediaStatus, error, warning } = finished[index];
+    round.results.set(
+      item.id,
+      error
+        ? { ...result, success: false, mediaStatus, error }
+        : {
+            ...result,
+            mediaStatus,
+            warning:
+              mediaStatus !== "READY"
+                ? `Still processing after ${MEDIA_PROCESSING_TIMEOUT_MS / 1000}s; check the product later`
+                : (warning ?? result.warning),
+          },
+    );
+  });
+}
+
+/**
+ * Upload a round of claimed items, all of one job, and record what happened to each
+ */
+async function processItems(items: ClaimedItem[]) {
+  const { id: jobId, shop } = items[0].job;
+  const round: WorkerRound = { results: new Map(), errors: new Map() };
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    await uploadRemoteItems(admin.graphql, shop, items.filter((item) => item.sourceUrl), round);
+    await uploadStagedItems(admin.graphql, shop, items.filter((item) => !item.sourceUrl), round);
+    await finishRoundMedia(admin.graphql, shop, items, round);
+  } catch (error) {
+    items
+      .filter((item) => !round.results.has(item.id))
+      .forEach((item) => round.errors.set(item.id, error));
+  }
+
+  for (const item of items) {
+    let result = round.results.get(item.id);
+    if (!result) {
+      const error = round.errors.get(item.id);
+      const message = error instanceof Error ? error.message : "Upload failed";
+      if (item.attempts < MAX_ITEM_ATTEMPTS) {
+        console.error(`Upload of ${item.filename} failed, retrying:`, error);
+        await requeueUploadItem(item.id, message);
+        continue;
+      }
+      result = { success: false, error: message };
+    }
+
+    await recordUploadItemResult(shop, item.id, result);
+    if (item.stagedPath) {
+      await rm(item.stagedPath, { force: true });
+    }
+  }
+
+  if (await completeUploadJobIfDone(shop, jobId)) {
+    await rm(path.join(STAGING_DIR, jobId), { recursive: true, force: true });
+    try {
+      const { admin } = await unauthenticated.admin(shop);
+      await publishJobProducts(admin.graphql, shop, jobId);
+    } catch (error) {
+      console.error(`Publish step of job ${jobId} failed:`, error);
+    }
+  }
+}
+
+async function runWorker() {
+  await requeueStaleUploadItems(new Date(Date.now() - STALE_ITEM_MS));
+
+  for (
+    let items = await claimNextUploadItems(WORKER_ROUND_SIZE);
+    items.length > 0;
+    items = await claimNextUploadItems(WORKER_ROUND_SIZE)
+  ) {
+    await processItems(items);
+  }
+}
+
+let activeRun: Promise<void> | null = null;
+let runAgain = false;
+
+/**
+ * Start the worker if it isn't already running
+ * Called when a job is queued and when the server starts, so unfinished jobs resume after a
+ * restart. Items that already finished are never claimed again.
+ */
+export function startUploadWorker() {
+  if (activeRun) {
+    // The current run may have just found the queue empty; check again when it ends
+    runAgain = true;
+    return;
+  }
+
+  runAgain = false;
+  activeRun = runWorker()
+    .catch((error) => console.error("Upload worker stopped:", error))
+    .finally(() => {
+      activeRun = null;
+      if (runAgain) startUploadWorker();
+    });
+}
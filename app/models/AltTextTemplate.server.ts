@@ -0,0 +1,28 @@
+import db from "../db.server";
+
+/**
+ * Get a shop's alt text templates, keyed by locale
+ * The primary language's template is under the empty locale.
+ */
+export async function getAltTextTemplates(shop: string): Promise<Record<string, string>> {
+  const templates = await db.altTextTemplate.findMany({ where: { shop } });
+  return Object.fromEntries(templates.map((t) => [t.locale, t.template]));
+}
+
+/**
+ * Save a shop's alt text templates
+ * A blank template is deleted; images then show the primary alt text in that language.
+ */
+export async function saveAltTextTemplates(shop: string, templates: Record<string, string>) {
+  await db.$transaction(
+    Object.entries(templates).map(([locale, template]) =>
+      template.trim()
+        ? db.altTextTemplate.upsert({
+            where: { shop_locale: { shop, locale } },
+            create: { shop, locale, template: template.trim() },
+            update: { template: template.trim() },
+          })
+        : db.altTextTemplate.deleteMany({ where: { shop, locale } }),
+    ),
+  );
+}
@@ -0,0 +1,46 @@
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { parseFilenameRules } from "../lib/filenameRules";
+import type { FilenameRules } from "../lib/filenameRules";
+import { parseQualityRules } from "../lib/quality";
+import type { QualityRules } from "../lib/quality";
+
+export interface ShopSettings {
+  filenameRules: FilenameRules;
+  qualityRules: QualityRules;
+}
+
+/**
+ * Get a shop's settings, with defaults for anything it hasn't saved
+ */
+export async function getShopSettings(shop: string): Promise<ShopSettings> {
+  const settings = await db.shopSettings.findUnique({ where: { shop } });
+  return {
+    filenameRules: parseFilenameRules(settings?.filenameRules),
+    qualityRules: parseQualityRules(settings?.qualityRules),
+  };
+}
+
+/**
+ * Save a shop's filename rules, dropping empty entries and an invalid capture pattern
+ */
+export async function saveFilenameRules(shop: string, rules: FilenameRules) {
+  const filenameRules = parseFilenameRules(rules) as unknown as Prisma.InputJsonObject;
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: { shop, filenameRules },
+    update: { filenameRules },
+  });
+}
+
+/**
+ * Save a shop's quality rules, turning invalid values off
+ */
+export async function saveQualityRules(shop: string, rules: QualityRules) {
+  const qualityRules = parseQualityRules(rules) as unknown as Prisma.InputJsonObject;
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: { shop, qualityRules },
+    update: { qualityRules },
+  });
+}
@@ -0,0 +1,498 @@
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import type { ExistingMediaPolicy } from "../lib/types";
+import { parsePublishRules } from "../lib/publish";
+import type { PublishResult, PublishRules } from "../lib/publish";
+
+export type UploadJobStatus = "staging" | "running" | "completed" | "failed";
+export type UploadItemStatus =
+  | "pending"
+  | "queued"
+  | "processing"
+  | "succeeded"
+  | "failed"
+  | "undone";
+
+export interface NewUploadItem {
+  filename: string;
+  productId: string;
+  productTitle?: string;
+  alt?: string;
+  altTranslations?: Record<string, string>;
+  variantIds?: string[];
+  sourceUrl?: string;
+  position?: number | null;
+  contentHash?: string;
+}
+
+export interface UploadJobFilters {
+  status?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  search?: string; // Matches file names, product titles and product IDs
+}
+
+export const UPLOAD_JOBS_PAGE_SIZE = 25;
+
+/**
+ * Create a job with one pending item per image, in upload order
+ * Background jobs start out staging; their remote images need no staging and are queued straight away.
+ */
+export async function createUploadJob(
+  shop: string,
+  user: { id?: string | null; email?: string | null },
+  items: NewUploadItem[],
+  background = false,
+  mediaPolicy: ExistingMediaPolicy = "append",
+  publishRules: PublishRules | null = null,
+) {
+  const rules = parsePublishRules(publishRules);
+  return db.uploadJob.create({
+    data: {
+      shop,
+      userId: user.id ?? null,
+      userEmail: user.email ?? null,
+      status: background ? "staging" : "running",
+      background,
+      mediaPolicy,
+      publishRules: rules ? (rules as unknown as Prisma.InputJsonObject) : undefined,
+      total: items.length,
+      items: {
+        create: items.map((item, index) => ({
+          filename: item.filename,
+          productId: item.productId,
+          productTitle: item.productTitle ?? null,
+          sequence: index,
+          position: item.position ?? null,
+          alt: item.alt ?? null,
+          altTranslations: item.altTranslations ?? undefined,
+          variantIds: item.variantIds ?? [],
+          sourceUrl: item.sourceUrl ?? null,
+          contentHash: item.contentHash ?? null,
+          status: background && item.sourceUrl ? "queued" : "pending",
+        })),
+      },
+    },
+    include: { items: { select: { id: true, filename: true } } },
+  });
+}
+
+/**
+ * Record the outcome of one item
+ * Items are looked up through their job's shop so one shop can't write to another's history.
+ */
+export async function recordUploadItemResult(
+  shop: string,
+  itemId: string,
+  result: { success: boolean; mediaId?: string | null; error?: string | null },
+) {
+  await db.uploadItem.updateMany({
+    where: { id: itemId, job: { shop } },
+    data: {
+      status: result.success ? "succeeded" : "failed",
+      mediaId: result.mediaId ?? null,
+      error: result.error ?? null,
+    },
+  });
+}
+
+/**
+ * Check that a job of this shop is a replacing run that hasn't finished yet
+ * Media is only deleted for such a job, so what it deleted can always be recorded.
+ */
+export async function isReplacingUploadJob(shop: string, jobId: string) {
+  const count = await db.uploadJob.count({
+    where: { id: jobId, shop, mediaPolicy: "replace", status: { in: ["staging", "running"] } },
+  });
+  return count > 0;
+}
+
+/**
+ * Keep a record of media the replace policy deleted, so the job can be undone
+ */
+export async function recordReplacedMedia(
+  shop: string,
+  jobId: string,
+  productId: string,
+  media: Array<{ mediaId: string; url: string | null; alt: string | null; position: number }>,
+) {
+  const job = await db.uploadJob.findFirst({ where: { id: jobId, shop }, select: { id: true } });
+  if (!job || media.length === 0) return;
+
+  await db.replacedMedia.createMany({
+    data: media.map((m) => ({
+      jobId,
+      productId,
+      mediaId: m.mediaId,
+      url: m.url,
+      alt: m.alt,
+      position: m.position,
+    })),
+  });
+}
+
+/**
+ * Mark a job finished and store its totals
+ */
+export async function completeUploadJob(shop: string, jobId: string) {
+  const counts = await db.uploadItem.groupBy({
+    by: ["status"],
+    where: { jobId, job: { shop } },
+    _count: true,
+  });
+  const count = (status: UploadItemStatus) =>
+    counts.find((c) => c.status === status)?._count ?? 0;
+  const succeeded = count("succeeded");
+  const failed = count("failed");
+
+  await db.uploadJob.updateMany({
+    where: { id: jobId, shop },
+    data: {
+      status: succeeded === 0 && failed > 0 ? "failed" : "completed",
+      succeeded,
+      failed,
+      completedAt: new Date(),
+    },
+  });
+}
+
+// A browser job none of whose items changed for this long lost the tab that was running it
+const ABANDONED_BROWSER_JOB_MS = 30 * 60 * 1000;
+
+/**
+ * Finish browser jobs whose tab was closed part way, failing the items it never sent
+ * Only the tab that started a browser job can run it, so such a job would otherwise stay in
+ * progress forever: its page would keep polling it and it could never be undone.
+ */
+export async function failAbandonedUploadJobs(shop: string) {
+  const staleBefore = new Date(Date.now() - ABANDONED_BROWSER_JOB_MS);
+  const jobs = await db.uploadJob.findMany({
+    where: {
+      shop,
+      background: false,
+      status: "running",
+      updatedAt: { lt: staleBefore },
+      items: { none: { updatedAt: { gte: staleBefore } } },
+    },
+    select: { id: true },
+  });
+
+  for (const job of jobs) {
+    await db.uploadItem.updateMany({
+      where: { jobId: job.id, status: { in: ["pending", "queued", "processing"] } },
+      data: { status: "failed", error: "Upload stopped before this image was sent" },
+    });
+    await completeUploadJob(shop, job.id);
+  }
+  return jobs.length;
+}
+
+/**
+ * Get an item that is still waiting for its file, or null if it belongs to another shop, was
+ * already staged or its job is no longer staging
+ */
+export async function getStageableUploadItem(shop: string, itemId: string) {
+  return db.uploadItem.findFirst({
+    where: { id: itemId, status: "pending", job: { shop, status: "staging" } },
+    select: { id: true, jobId: true },
+  });
+}
+
+/**
+ * Record that an item's file is staged on the server and queue it for the worker
+ */
+export async function stageUploadItem(
+  shop: string,
+  itemId: string,
+  staged: { path: string; mimeType: string },
+) {
+  const { count } = await db.uploadItem.updateMany({
+    where: { id: itemId, status: "pending", job: { shop, status: "staging" } },
+    data: { stagedPath: staged.path, mimeType: staged.mimeType, status: "queued" },
+  });
+  return count > 0;
+}
+
+/**
+ * Hand a staged background job to the worker
+ * Items whose files never reached the server are failed so the job can still finish.
+ */
+export async function startUploadJob(shop: string, jobId: string) {
+  const { count } = await db.uploadJob.updateMany({
+    where: { id: jobId, shop, status: "staging" },
+    data: { status: "running" },
+  });
+  if (count === 0) return false;
+
+  await db.uploadItem.updateMany({
+    where: { jobId, status: "pending" },
+    data: { status: "failed", error: "File was not staged on the server" },
+  });
+  return true;
+}
+
+/**
+ * Put items a stopped worker left in processing back in the queue
+ */
+export async function requeueStaleUploadItems(staleBefore: Date) {
+  const { count } = await db.uploadItem.updateMany({
+    where: { status: "processing", updatedAt: { lt: staleBefore } },
+    data: { status: "queued" },
+  });
+  return count;
+}
+
+/**
+ * Claim up to `limit` queued items of the oldest running job, in upload order
+ * Each claim is a conditional update, so two workers never process the same item. Returns an
+ * empty list once no running job has queued items.
+ */
+export async function claimNextUploadItems(limit: number) {
+  for (;;) {
+    const next = await db.uploadItem.findFirst({
+      where: { status: "queued", job: { status: "running" } },
+      orderBy: [{ job: { createdAt: "asc" } }, { sequence: "asc" }],
+      select: { jobId: true },
+    });
+    if (!next) return [];
+
+    const items = await db.uploadItem.findMany({
+      where: { jobId: next.jobId, status: "queued", job: { status: "running" } },
+      orderBy: { sequence: "asc" },
+      take: limit,
+      include: { job: { select: { id: true, shop: true } } },
+    });
+    const claimed: typeof items = [];
+    for (const item of items) {
+      const { count } = await db.uploadItem.updateMany({
+        where: { id: item.id, status: "queued" },
+        data: { status: "processing", attempts: { increment: 1 } },
+      });
+      if (count > 0) {
+        claimed.push({ ...item, attempts: item.attempts + 1 });
+      }
+    }
+    if (claimed.length > 0) return claimed;
+  }
+}
+
+/**
+ * Return an item to the queue so it is tried again
+ */
+export async function requeueUploadItem(itemId: string, error: string) {
+  await db.uploadItem.update({
+    where: { id: itemId },
+    data: { status: "queued", error },
+  });
+}
+
+/**
+ * Get what the publish step of a finished job works on: its rules and the products it added
+ * images to. Returns null when the job has publishing off or was already published.
+ */
+export async function getUploadJobPublish(shop: string, jobId: string) {
+  const job = await db.uploadJob.findFirst({
+    where: { id: jobId, shop, status: { in: ["completed", "failed"] } },
+    include: {
+      items: {
+        where: { status: "succeeded" },
+        select: { productId: true },
+        distinct: ["productId"],
+      },
+      _count: { select: { statusChanges: true } },
+    },
+  });
+  const rules = parsePublishRules(job?.publishRules);
+  if (!job || !rules || job._count.statusChanges > 0) return null;
+
+  return { rules, productIds: job.items.map((item) => item.productId) };
+}
+
+/**
+ * Log what the publish step did to each product
+ */
+export async function recordStatusChanges(shop: string, jobId: string, results: PublishResult[]) {
+  const job = await db.uploadJob.findFirst({ where: { id: jobId, shop }, select: { id: true } });
+  if (!job || results.length === 0) return;
+
+  await db.productStatusChange.createMany({
+    data: results.map((result) => ({
+      jobId,
+      productId: result.productId,
+      productTitle: result.title,
+      fromStatus: result.fromStatus,
+      toStatus: result.toStatus,
+      publications: result.publications,
+      note: result.note ?? null,
+    })),
+  });
+}
+
+/**
+ * Complete a background job once none of its items are waiting or in progress
+ */
+export async function completeUploadJobIfDone(shop: string, jobId: string) {
+  const remaining = await db.uploadItem.count({
+    where: { jobId, status: { in: ["pending", "queued", "processing"] } },
+  });
+  if (remaining > 0) return false;
+
+  await completeUploadJob(shop, jobId);
+  return true;
+}
+
+/**
+ * Get what undoing a finished job has to do: the media it created that still exists, and the
+ * media its replace policy removed that hasn't been restored yet
+ */
+export async function getUploadJobUndo(shop: string, jobId: string) {
+  return db.uploadJob.findFirst({
+    where: { id: jobId, shop, status: { in: ["completed", "failed"] } },
+    include: {
+      items: {
+        where: { status: "succeeded", mediaId: { not: null } },
+        orderBy: { sequence: "asc" },
+      },
+      replacedMedia: {
+        where: { restoredMediaId: null },
+        orderBy: [{ productId: "asc" }, { position: "asc" }],
+      },
+    },
+  });
+}
+
+/**
+ * Record the outcome of undoing one item
+ * An item whose media couldn't be deleted stays succeeded, with the reason as its error.
+ */
+export async function recordUploadItemUndo(
+  shop: string,
+  itemId: string,
+  result: { success: boolean; error?: string | null },
+) {
+  await db.uploadItem.updateMany({
+    where: { id: itemId, job: { shop } },
+    data: result.success
+      ? { status: "undone", error: null }
+      : { error: `Could not undo: ${result.error ?? "unknown error"}` },
+  });
+}
+
+/**
+ * Record the media created to restore one that the replace policy removed
+ */
+export async function recordReplacedMediaRestored(
+  shop: string,
+  replacedMediaId: string,
+  restoredMediaId: string,
+) {
+  await db.replacedMedia.updateMany({
+    where: { id: replacedMediaId, job: { shop } },
+    data: { restoredMediaId },
+  });
+}
+
+/**
+ * Stamp a job as undone
+ */
+export async function markUploadJobUndone(shop: string, jobId: string) {
+  await db.uploadJob.updateMany({
+    where: { id: jobId, shop },
+    data: { undoneAt: new Date() },
+  });
+}
+
+// Content hashes looked up per query, so a large run doesn't build one huge query
+const CONTENT_HASH_CHUNK_SIZE = 500;
+
+/**
+ * Find which images were already uploaded to their products, by content hash
+ * Only succeeded items count; returns the `productId:contentHash` keys that were found.
+ */
+export async function findUploadedContent(
+  shop: string,
+  images: Array<{ productId: string; contentHash: string }>,
+) {
+  const wanted = new Set(images.map(({ productId, contentHash }) => `${productId}:${contentHash}`));
+  const hashes = Array.from(new Set(images.map((image) => image.contentHash)));
+  const found = new Set<string>();
+
+  // Match the hashes in the database and the products here
+  for (let i = 0; i < hashes.length; i += CONTENT_HASH_CHUNK_SIZE) {
+    const items = await db.uploadItem.findMany({
+      where: {
+        status: "succeeded",
+        job: { shop },
+        contentHash: { in: hashes.slice(i, i + CONTENT_HASH_CHUNK_SIZE) },
+      },
+      select: { productId: true, contentHash: true },
+      distinct: ["productId", "contentHash"],
+    });
+    for (const item of items) {
+      const key = `${item.productId}:${item.contentHash}`;
+      if (wanted.has(key)) found.add(key);
+    }
+  }
+  return Array.from(found);
+}
+
+function buildJobWhere(shop: string, filters: UploadJobFilters): Prisma.UploadJobWhereInput {
+  const where: Prisma.UploadJobWhereInput = { shop };
+
+  if (filters.status) {
+    where.status = filters.status;
+  }
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from ? { gte: new Date(`${filters.from}T00:00:00Z`) } : {}),
+      ...(filters.to ? { lte: new Date(`${filters.to}T23:59:59.999Z`) } : {}),
+    };
+  }
+  if (filters.search) {
+    where.items = {
+      some: {
+        OR: [
+          { filename: { contains: filters.search, mode: "insensitive" } },
+          { productTitle: { contains: filters.search, mode: "insensitive" } },
+          { productId: { contains: filters.search } },
+        ],
+      },
+    };
+  }
+
+  return where;
+}
+
+/**
+ * List a shop's jobs, newest first
+ */
+export async function getUploadJobs(shop: string, filters: UploadJobFilters, page = 1) {
+  const where = buildJobWhere(shop, filters);
+  const [jobs, count] = await Promise.all([
+    db.uploadJob.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * UPLOAD_JOBS_PAGE_SIZE,
+      take: UPLOAD_JOBS_PAGE_SIZE,
+    }),
+    db.uploadJob.count({ where }),
+  ]);
+
+  return { jobs, count };
+}
+
+/**
+ * Get one job with its items, or null if it belongs to another shop
+ */
+export async function getUploadJob(shop: string, jobId: string, itemStatus?: string) {
+  return db.uploadJob.findFirst({
+    where: { id: jobId, shop },
+    include: {
+      items: {
+        where: itemStatus ? { status: itemStatus } : undefined,
+        orderBy: { sequence: "asc" },
+      },
+      statusChanges: { orderBy: { createdAt: "asc" } },
+    },
+  });
+}
@@ -1,38 +1,112 @@
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import type {
   ActionFunctionArgs,
   HeadersFunction,
   LoaderFunctionArgs,
+  ShouldRevalidateFunction,
 } from "react-router";
-import { useFetcher, useLoaderData } from "react-router";
+import { useFetcher, useLoaderData, useSearchParams } from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
+import type { action as uploadAction } from "./app.api.upload";
 import { boundary } from "@shopify/shopify-app-react-router/server";
+import { recordUploadItemResult } from "../models/UploadJob.server";
+import { getAltTextTemplates } from "../models/AltTextTemplate.server";
+import { getShopSettings } from "../models/ShopSettings.server";
+import { createMediaFromUrl } from "../lib/upload.server";
+import { describePublishResult, DEFAULT_PUBLISH_RULES } from "../lib/publish";
+import type { Publication, PublishResult, PublishRules } from "../lib/publish";
 import {
+  buildAltTextContext,
+  renderAltTexts,
+  ALT_TEXT_TOKENS,
+  DEFAULT_ALT_TEXT_TEMPLATE,
+  PRIMARY_LOCALE_KEY,
+} from "../lib/altText";
+import {
+  normalizeConcurrency,
+  packIntoBatches,
+  runGroupedConcurrently,
+  DEFAULT_UPLOAD_CONCURRENCY,
+  MAX_BATCH_FILES,
+  MAX_PROXY_BATCH_BYTES,
+  MAX_UPLOAD_CONCURRENCY,
+} from "../lib/pool";
+import {
+  assignProduct,
+  getVariantImages,
   matchImagesToProducts,
+  sortForUpload,
+  DEFAULT_STRATEGY_ORDER,
+  MATCH_STRATEGIES,
   validateImageFile,
+  MAX_FILE_SIZE_BYTES,
   SUPPORTED_EXTENSIONS,
 } from "../lib/matching";
+import {
+  extractZipEntries,
+  hashFile,
+  isZipFile,
+  readDroppedFiles,
+  toSourceFiles,
+  uploadToStagedTarget,
+} from "../lib/files";
+import type { SourceFile } from "../lib/files";
+import { isManifestFile, readManifestFile, MANIFEST_EXTENSIONS } from "../lib/manifest";
+import type { Manifest } from "../lib/manifest";
+import {
+  canPreprocess,
+  preprocessImage,
+  processedImageInfo,
+  DEFAULT_PREPROCESS_OPTIONS,
+  MAX_PREPROCESS_SIZE_BYTES,
+  PREPROCESS_FORMATS,
+} from "../lib/preprocess";
+import type { PreprocessFormat, PreprocessOptions } from "../lib/preprocess";
+import { checkImageQuality, readImageInfo } from "../lib/quality";
+import type { QualityIssue, QualityRules } from "../lib/quality";
+import { filenameFromUrl, parseUrlList, MAX_PREFLIGHT_URLS } from "../lib/remote";
+import type { RemoteImageCheck } from "../lib/remote";
+import {
+  applyProductScope,
+  buildProductSearchQuery,
+  describeProductScope,
+  parseProductScope,
+} from "../lib/scope";
+import type { ProductScope } from "../lib/scope";
+import { getScopeCollections } from "../lib/scope.server";
+import { ProductScopeSection } from "../components/ProductScopeSection";
 import type {
+  DuplicateImage,
+  ExistingMediaPolicy,
   ShopifyProduct,
   ImageFile,
   MatchResult,
+  MatchStrategyId,
+  MediaStatus,
+  StagedTarget,
   UploadResult,
 } from "../lib/types";
 
-// GraphQL query to fetch draft products
-const GET_DRAFT_PRODUCTS = `#graphql
-  query GetDraftProducts($cursor: String) {
-    products(first: 100, after: $cursor, query: "status:draft") {
+// GraphQL query to fetch the products in scope
+// Page size is kept small so the nested variants connection stays under the query cost limit
+const GET_PRODUCTS = `#graphql
+  query GetProducts($cursor: String, $query: String) {
+    products(first: 20, after: $cursor, query: $query) {
       edges {
         node {
           id
           handle
           title
+          vendor
+          productType
           status
           featuredImage {
             url
           }
+          mediaCount {
+            count
+          }
           media(first: 1) {
             edges {
               node {
@@ -41,6 +115,20 @@ const GET_DRAFT_PRODUCTS = `#graphql
               }
             }
           }
+          variants(first: 40) {
+            edges {
+              node {
+                id
+                title
+                sku
+                barcode
+                selectedOptions {
+                  name
+                  value
+                }
+              }
+            }
+          }
         }
         cursor
       }
@@ -52,32 +140,203 @@ const GET_DRAFT_PRODUCTS = `#graphql
   }
 `;
 
-// GraphQL mutation to upload image to product
-const PRODUCT_CREATE_MEDIA = `#graphql
-  mutation ProductCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
-    productCreateMedia(productId: $productId, media: $media) {
-      media {
+// GraphQL query to fetch the shop's languages for alt text translations
+const GET_SHOP_LOCALES = `#graphql
+  query GetShopLocales {
+    shopLocales(published: true) {
+      locale
+      name
+      primary
+    }
+  }
+`;
+
+// GraphQL query to fetch the sales channels products can be published to
+const GET_PUBLICATIONS = `#graphql
+  query GetPublications {
+    publications(first: 50) {
+      nodes {
         id
-      }
-      mediaUserErrors {
-        field
-        message
+        name
       }
     }
   }
 `;
 
+// What a run does with products that already have images
+const MEDIA_POLICIES: Array<{ value: ExistingMediaPolicy; label: string }> = [
+  { value: "append", label: "Add after existing images" },
+  { value: "featured", label: "Add and make featured" },
+  { value: "replace", label: "Replace existing images" },
+  { value: "skip", label: "Skip products with images" },
+];
+
+function countExistingMedia(product: ShopifyProduct): number {
+  return product.mediaCount?.count ?? product.media.edges.length;
+}
+
+/**
+ * Describe what the chosen policy will do to a product's current gallery
+ */
+function describeMediaPolicy(policy: ExistingMediaPolicy, existing: number): string {
+  if (existing === 0) return "No existing images";
+  const images = existing === 1 ? "1 existing image" : `${existing} existing images`;
+  if (policy === "skip") return `Skipped: has ${images}`;
+  if (policy === "replace") return `Replaces ${images}`;
+  if (policy === "featured") return `Goes before ${images}`;
+  return `Added after ${images}`;
+}
+
+/**
+ * Gallery position each upload should move to, counting from 0 per product, in creation order
+ */
+function featuredPositions(matches: MatchResult[]): Map<string, number> {
+  const positions = new Map<string, number>();
+  const counts = new Map<string, number>();
+  for (const match of matches) {
+    const count = counts.get(match.product!.id) ?? 0;
+    positions.set(match.image.path, count);
+    counts.set(match.product!.id, count + 1);
+  }
+  return positions;
+}
+
+function DuplicateNote({ duplicate }: { duplicate?: DuplicateImage }) {
+  if (!duplicate) return null;
+  if (duplicate.reason === "uploaded") {
+    return <s-badge tone="warning">Already uploaded</s-badge>;
+  }
+  return (
+    <>
+      <s-badge tone="warning">Duplicate</s-badge>
+      <s-text variant="bodySm" color="subdued">
+        Same image as {duplicate.duplicateOf}
+      </s-text>
+    </>
+  );
+}
+
+// Shopify processes media after the upload request returns; check on it with a growing
+// interval, a chunk of media per request, and stop after the timeout
+const MEDIA_POLL_INTERVAL_MS = 2000;
+const MEDIA_POLL_MAX_INTERVAL_MS = 10000;
+const MEDIA_PROCESSING_TIMEOUT_MS = 90000;
+const MEDIA_POLL_CHUNK_SIZE = 50;
+
+/**
+ * Wait for Shopify to process uploaded media; the server attaches it to variants once it is ready
+ * Updates `results` in place: media Shopify can't process is failed, media still processing at
+ * the timeout gets a warning.
+ */
+async function finishUploadedMedia(
+  results: UploadResult[],
+  detailsFor: (result: UploadResult) => { variantIds: string[]; itemId?: string },
+) {
+  const isProcessing = (result: UploadResult) =>
+    result.success &&
+    !!result.mediaId &&
+    result.mediaStatus !== "READY" &&
+    result.mediaStatus !== "FAILED";
+  const deadline = Date.now() + MEDIA_PROCESSING_TIMEOUT_MS;
+  let interval = MEDIA_POLL_INTERVAL_MS;
+
+  let pending = results.filter(isProcessing);
+  while (pending.length > 0 && Date.now() + interval <= deadline) {
+    await new Promise((resolve) => setTimeout(resolve, interval));
+    interval = Math.min(interval * 1.5, MEDIA_POLL_MAX_INTERVAL_MS);
+
+    for (let i = 0; i < pending.length; i += MEDIA_POLL_CHUNK_SIZE) {
+      const chunk = pending.slice(i, i + MEDIA_POLL_CHUNK_SIZE);
+      const formData = new FormData();
+      formData.append("intent", "finish-media");
+      formData.append(
+        "items",
+        JSON.stringify(
+          chunk.map((result) => ({
+            mediaId: result.mediaId,
+            productId: result.productId,
+            ...detailsFor(result),
+          }))
+        )
+      );
+      try {
+        const response = await fetch("/app/api/upload", { method: "POST", body: formData });
+        const data = await response.json();
+        if (!data.success) continue;
+
+        chunk.forEach((result, index) => {
+          const status: { mediaStatus: MediaStatus; error?: string; warning?: string } =
+            data.results[index];
+          result.mediaStatus = status.mediaStatus;
+          if (status.error) {
+            result.success = false;
+            result.error = status.error;
+          } else if (status.warning) {
+            result.warning = status.warning;
+          }
+        });
+      } catch (pollError) {
+        console.warn("Could not check media processing:", pollError);
+      }
+    }
+    pending = pending.filter(isProcessing);
+  }
+
+  for (const result of pending) {
+    result.warning =
+      detailsFor(result).variantIds.length > 0
+        ? "Image added to product but not to variants: media is still processing"
+        : `Still processing after ${MEDIA_PROCESSING_TIMEOUT_MS / 1000}s; check the product later`;
+  }
+}
+
+/**
+ * Finish a run's upload job, which sets its ready products to Active
+ * Call it once the run's media has been checked, so the readiness rules see processed images.
+ * Returns the status changes, or null when publishing was off.
+ */
+async function completeUploadJob(jobId: string): Promise<PublishResult[] | null> {
+  const formData = new FormData();
+  formData.append("intent", "complete-job");
+  formData.append("jobId", jobId);
+  const response = await fetch("/app/api/upload", { method: "POST", body: formData });
+  const data = await response.json();
+  return data.publishResults ?? null;
+}
+
+// Requests made while matching and editing settings don't change the products in scope, so they
+// skip reloading them
+const SIDE_INTENTS = new Set([
+  "check-duplicates",
+  "save-alt-templates",
+  "save-quality-rules",
+  "apply-alt-text",
+]);
+
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  formData,
+  defaultShouldRevalidate,
+}) => {
+  const intent = formData?.get("intent");
+  if (typeof intent === "string" && SIDE_INTENTS.has(intent)) {
+    return false;
+  }
+  return defaultShouldRevalidate;
+};
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
+  const scope = parseProductScope(new URL(request.url).searchParams);
+  const query = buildProductSearchQuery(scope);
 
-  // Fetch all draft products with pagination
+  // Fetch all products in scope with pagination
   const products: ShopifyProduct[] = [];
   let hasNextPage = true;
   let cursor: string | null = null;
 
   while (hasNextPage) {
-    const response = await admin.graphql(GET_DRAFT_PRODUCTS, {
-      variables: { cursor },
+    const response: Response = await admin.graphql(GET_PRODUCTS, {
+      variables: { cursor, query },
     });
     const data = await response.json();
 
@@ -89,76 +348,114 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     cursor = data.data.products.pageInfo.endCursor;
   }
 
-  return { products };
+  const collections = await getScopeCollections(admin.graphql);
+
+  const localesResponse = await admin.graphql(GET_SHOP_LOCALES);
+  const localesData = await localesResponse.json();
+  const locales: Array<{ locale: string; name: string }> = (
+    localesData.data.shopLocales as Array<{ locale: string; name: string; primary: boolean }>
+  ).filter((locale) => !locale.primary);
+
+  const altTextTemplates = await getAltTextTemplates(session.shop);
+  const { filenameRules, qualityRules } = await getShopSettings(session.shop);
+
+  const publicationsResponse = await admin.graphql(GET_PUBLICATIONS);
+  const publicationsData = await publicationsResponse.json();
+  const publications: Publication[] = publicationsData.data.publications.nodes;
+
+  return {
+    products,
+    scope,
+    collections,
+    locales,
+    altTextTemplates,
+    filenameRules,
+    qualityRules,
+    publications,
+  };
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
 
   const intent = formData.get("intent");
 
   if (intent === "upload") {
     const uploadsJson = formData.get("uploads") as string;
-    const uploads: Array<{ productId: string; imageUrl: string; filename: string }> =
-      JSON.parse(uploadsJson);
+    const jobId = (formData.get("jobId") as string | null) || null;
+    const uploads: Array<{
+      productId: string;
+      imageUrl: string;
+      filename: string;
+      alt?: string;
+      altTranslations?: Record<string, string>;
+      position?: number | null;
+      itemId?: string;
+    }> = JSON.parse(uploadsJson);
 
+    const concurrency = normalizeConcurrency(Number(formData.get("concurrency")));
     const results: UploadResult[] = [];
 
-    for (const upload of uploads) {
+    await runGroupedConcurrently(uploads, (upload) => upload.productId, concurrency, async (upload) => {
+      let result: UploadResult;
       try {
-        const response = await admin.graphql(PRODUCT_CREATE_MEDIA, {
-          variables: {
-            productId: upload.productId,
-            media: [
-              {
-                originalSource: upload.imageUrl,
-                mediaContentType: "IMAGE",
-                alt: upload.filename,
-              },
-            ],
-          },
-        });
-
-        const data = await response.json();
-
-        if (data.data.productCreateMedia.mediaUserErrors.length > 0) {
-          const errors = data.data.productCreateMedia.mediaUserErrors
-            .map((e: { message: string }) => e.message)
-            .join(", ");
-          results.push({
-            filename: upload.filename,
-            productId: upload.productId,
-            success: false,
-            error: errors,
-          });
-        } else {
-          results.push({
-            filename: upload.filename,
-            productId: upload.productId,
-            success: true,
-          });
-        }
+        result = {
+          filename: upload.filename,
+          productId: upload.productId,
+          itemId: upload.itemId,
+          ...(await createMediaFromUrl(
+            admin.graphql,
+            session.shop,
+            upload.imageUrl,
+            upload.productId,
+            upload.alt || upload.filename,
+            upload.position ?? null,
+            upload.altTranslations ?? null,
+          )),
+        };
       } catch (error) {
-        results.push({
+        result = {
           filename: upload.filename,
           productId: upload.productId,
+          itemId: upload.itemId,
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
-        });
+        };
       }
-    }
 
-    return { results };
+      results.push(result);
+      if (upload.itemId) {
+        await recordUploadItemResult(session.shop, upload.itemId, result);
+      }
+    });
+
+    // The browser completes the job once the imported media has been processed
+    return { results, jobId };
   }
 
   return null;
 };
 
 export default function Index() {
-  const { products } = useLoaderData<typeof loader>();
+  const {
+    products,
+    scope,
+    collections,
+    locales,
+    altTextTemplates,
+    filenameRules,
+    qualityRules: savedQualityRules,
+    publications,
+  } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
+  const duplicateFetcher = useFetcher<typeof uploadAction>();
+  const altTemplateFetcher = useFetcher<typeof uploadAction>();
+  const qualityRulesFetcher = useFetcher<typeof uploadAction>();
+  const altTextFetcher = useFetcher<typeof uploadAction>();
   const shopify = useAppBridge();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const scopeLabel = describeProductScope(scope);
 
   // State
   const [images, setImages] = useState<ImageFile[]>([]);
@@ -168,52 +465,333 @@ export default function Index() {
   const [errors, setErrors] = useState<string[]>([]);
   const [uploadProgress, setUploadProgress] = useState<string>("");
   const [isUploadingState, setIsUploadingState] = useState(false);
+  const [strategyOrder, setStrategyOrder] = useState<MatchStrategyId[]>(DEFAULT_STRATEGY_ORDER);
+  // Products chosen by the user, keyed by image path; these win over automatic matches
+  const [assignments, setAssignments] = useState<Record<string, ShopifyProduct>>({});
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [manifestErrors, setManifestErrors] = useState<string[]>([]);
+  const [sourceMode, setSourceMode] = useState<"files" | "urls">("files");
+  const [urlText, setUrlText] = useState("");
+  const [urlCheckProgress, setUrlCheckProgress] = useState("");
+  // Hand batches to the server worker so they keep going after this tab closes
+  const [runOnServer, setRunOnServer] = useState(false);
+  const [backgroundJobId, setBackgroundJobId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_UPLOAD_CONCURRENCY);
+  const [mediaPolicy, setMediaPolicy] = useState<ExistingMediaPolicy>("append");
+  const [uploadDuplicates, setUploadDuplicates] = useState(false);
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [qualityRules, setQualityRules] = useState<QualityRules>(savedQualityRules);
+  const [uploadWithWarnings, setUploadWithWarnings] = useState(false);
+  // Processed versions of the dropped files, keyed by image path
+  const [processedFiles, setProcessedFiles] = useState<Record<string, { file?: File; error?: string }>>(
+    {}
+  );
+  const [processingProgress, setProcessingProgress] = useState("");
+  // Alt text templates being edited, keyed by locale; see PRIMARY_LOCALE_KEY
+  const [altTemplates, setAltTemplates] = useState<Record<string, string>>(altTextTemplates);
+  const [altOnlyMissing, setAltOnlyMissing] = useState(true);
+  const [publishRules, setPublishRules] = useState<PublishRules>(DEFAULT_PUBLISH_RULES);
+  // Status changes made after the last run; null when publishing was off
+  const [publishResults, setPublishResults] = useState<PublishResult[] | null>(null);
 
   const isUploading = fetcher.state === "submitting" || isUploadingState;
 
-  // Update match results when images or products change
+  // Update match results when images, products, the strategy order, manifest, filename rules or
+  // assignments change
   useEffect(() => {
     if (images.length > 0 && products.length > 0) {
-      const results = matchImagesToProducts(images, products);
-      setMatchResults(results.results);
+      const results = matchImagesToProducts(
+        images,
+        products,
+        strategyOrder,
+        manifest,
+        filenameRules
+      );
+      setManifestErrors(results.manifestErrors);
+      setMatchResults(
+        results.results.map((result) => {
+          const assigned = assignments[result.image.path];
+          return assigned ? assignProduct(result, assigned) : result;
+        })
+      );
     } else {
+      setManifestErrors(manifest?.errors ?? []);
       setMatchResults([]);
     }
-  }, [images, products]);
+  }, [images, products, strategyOrder, manifest, filenameRules, assignments]);
 
-  // Handle upload completion
+  // Ask the server which matched images were uploaded to their products before
+  const contentToCheck = useMemo(() => {
+    const images = new Map<string, { productId: string; contentHash: string }>();
+    for (const result of matchResults) {
+      if (result.product && result.image.contentHash) {
+        const key = `${result.product.id}:${result.image.contentHash}`;
+        images.set(key, { productId: result.product.id, contentHash: result.image.contentHash });
+      }
+    }
+    return JSON.stringify(Array.from(images.values()));
+  }, [matchResults]);
+
+  const submitDuplicateCheck = duplicateFetcher.submit;
   useEffect(() => {
-    if (fetcher.data?.results) {
-      setUploadResults(fetcher.data.results);
-      const succeeded = fetcher.data.results.filter((r: UploadResult) => r.success).length;
-      if (succeeded > 0) {
-        shopify.toast.show(`Successfully uploaded ${succeeded} images`);
+    if (contentToCheck === "[]") return;
+    submitDuplicateCheck(
+      { intent: "check-duplicates", images: contentToCheck },
+      { method: "POST", action: "/app/api/upload" }
+    );
+  }, [contentToCheck, submitDuplicateCheck]);
+
+  // Flag images with the same content as an earlier one for the same product, in this batch
+  // or in the upload history. A replacing run clears the gallery, so only the batch counts then.
+  const duplicates = useMemo(() => {
+    const uploaded = new Set(duplicateFetcher.data?.uploaded ?? []);
+    const firstPaths = new Map<string, string>();
+    const found = new Map<string, DuplicateImage>();
+
+    for (const result of matchResults) {
+      if (!result.product || !result.image.contentHash) continue;
+      const key = `${result.product.id}:${result.image.contentHash}`;
+      const firstPath = firstPaths.get(key);
+      if (firstPath) {
+        found.set(result.image.path, { reason: "batch", duplicateOf: firstPath });
+      } else if (uploaded.has(key) && mediaPolicy !== "replace") {
+        found.set(result.image.path, { reason: "uploaded" });
+      }
+      if (!firstPath) firstPaths.set(key, result.image.path);
+    }
+    return found;
+  }, [matchResults, duplicateFetcher.data, mediaPolicy]);
+
+  // Check dropped images against the quality rules, as they will be after processing
+  const qualityIssues = useMemo(() => {
+    const found = new Map<string, QualityIssue[]>();
+    for (const image of images) {
+      if (image.info === undefined) continue;
+      const info =
+        image.info && preprocess.enabled && canPreprocess(image)
+          ? processedImageInfo(image.info, preprocess)
+          : image.info;
+      const issues = checkImageQuality(info, qualityRules);
+      if (issues.length > 0) found.set(image.path, issues);
+    }
+    return found;
+  }, [images, preprocess, qualityRules]);
+
+  // Alt text for each matched image: manifest alt text wins, otherwise the templates fill in the
+  // product's details, with the gallery position the image is expected to land at
+  const altTexts = useMemo(() => {
+    const found = new Map<string, { alt: string; translations: Record<string, string> }>();
+    const counts = new Map<string, number>();
+    for (const match of sortForUpload(matchResults.filter((r) => r.matched && r.product))) {
+      const product = match.product!;
+      const count = (counts.get(product.id) ?? 0) + 1;
+      counts.set(product.id, count);
+
+      if (match.alt) {
+        found.set(match.image.path, { alt: match.alt, translations: {} });
+        continue;
       }
+      const position = mediaPolicy === "append" ? countExistingMedia(product) + count : count;
+      found.set(
+        match.image.path,
+        renderAltTexts(
+          altTemplates,
+          buildAltTextContext(product, match.variants, position, match.image.path)
+        )
+      );
+    }
+    return found;
+  }, [matchResults, altTemplates, mediaPolicy]);
+
+  // Variants each matched image will be attached to, for the table
+  const variantImages = useMemo(
+    () => getVariantImages(sortForUpload(matchResults.filter((r) => r.matched && r.product))),
+    [matchResults]
+  );
+
+  // Re-applying uses the saved templates, so unsaved edits have to be saved first. Saving doesn't
+  // reload the page, so the last save wins over the loaded templates.
+  const savedAltTemplates = altTemplateFetcher.data?.altTemplates ?? altTextTemplates;
+  const altTemplatesChanged = useMemo(() => {
+    const keys = new Set([...Object.keys(altTemplates), ...Object.keys(savedAltTemplates)]);
+    return Array.from(keys).some(
+      (locale) => (altTemplates[locale] ?? "").trim() !== (savedAltTemplates[locale] ?? "").trim()
+    );
+  }, [altTemplates, savedAltTemplates]);
+
+  useEffect(() => {
+    if (altTemplateFetcher.data?.altTemplates) {
+      shopify.toast.show("Alt text templates saved");
     }
+  }, [altTemplateFetcher.data, shopify]);
+
+  useEffect(() => {
+    if (qualityRulesFetcher.data?.qualityRulesSaved) {
+      shopify.toast.show("Quality rules saved");
+    }
+  }, [qualityRulesFetcher.data, shopify]);
+
+  const altTextResults = altTextFetcher.data?.altTextResults;
+
+  // Variants to attach each imported URL image to once it is processed, by image path
+  const urlVariantIdsRef = React.useRef<Map<string, string[]>>(new Map());
+
+  // Handle completion of URL uploads, which run after any file uploads
+  useEffect(() => {
+    if (!fetcher.data?.results) return;
+    const urlResults = fetcher.data.results.map((r: UploadResult) => ({ ...r }));
+    const jobId = fetcher.data.jobId;
+    let cancelled = false;
+
+    const finishUrlUploads = async () => {
+      setUploadProgress("Waiting for Shopify to process the imported images...");
+      await finishUploadedMedia(urlResults, (r) => ({
+        variantIds: urlVariantIdsRef.current.get(r.filename) ?? [],
+        itemId: r.itemId,
+      }));
+      if (cancelled) return;
+
+      let publishResults: PublishResult[] | null = null;
+      if (jobId) {
+        setUploadProgress("Finishing the upload...");
+        try {
+          publishResults = await completeUploadJob(jobId);
+        } catch (completeError) {
+          console.error("Could not complete the upload job:", completeError);
+        }
+        if (cancelled) return;
+      }
+
+      setUploadProgress("");
+      setUploadResults((prev) => [...prev, ...urlResults]);
+      setPublishResults(publishResults);
+      const succeeded = urlResults.filter((r) => r.success);
+      if (succeeded.length > 0) {
+        shopify.toast.show(`Successfully imported ${succeeded.length} images from URLs`);
+        const successfulUrls = new Set(succeeded.map((r) => r.filename));
+        setImages((prev) => prev.filter((img) => !successfulUrls.has(img.path)));
+      }
+    };
+    finishUrlUploads();
+
+    return () => {
+      cancelled = true;
+    };
   }, [fetcher.data, shopify]);
 
   // Store files in a ref so we can access them during upload
   const fileMapRef = React.useRef<Map<string, File>>(new Map());
+  // Processed files by path, with the options they were processed with
+  const processedCacheRef = React.useRef<Map<string, { options: string; file?: File; error?: string }>>(
+    new Map()
+  );
 
-  const processFiles = useCallback((fileList: FileList | File[]) => {
-    const files = Array.from(fileList);
-    const validFiles: ImageFile[] = [];
+  // Process the dropped files again whenever the files or the processing options change
+  useEffect(() => {
+    if (!preprocess.enabled) {
+      setProcessedFiles({});
+      setProcessingProgress("");
+      return;
+    }
+
+    let cancelled = false;
+    const options = JSON.stringify(preprocess);
+    const pending = images.filter((image) => fileMapRef.current.has(image.path));
+
+    (async () => {
+      const next: Record<string, { file?: File; error?: string }> = {};
+      for (let i = 0; i < pending.length; i++) {
+        const path = pending[i].path;
+        let cached = processedCacheRef.current.get(path);
+        if (cached?.options !== options) {
+          setProcessingProgress(`Processing image ${i + 1} of ${pending.length}...`);
+          try {
+            const file = await preprocessImage(fileMapRef.current.get(path)!, preprocess);
+            cached = { options, file };
+          } catch (error) {
+            cached = {
+              options,
+              error: error instanceof Error ? error.message : "Could not process image",
+            };
+          }
+          if (cancelled) return;
+          processedCacheRef.current.set(path, cached);
+        }
+        next[path] = { file: cached.file, error: cached.error };
+      }
+      setProcessedFiles(next);
+      setProcessingProgress("");
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [images, preprocess]);
+
+  // The file to upload for an image: its processed version when processing is on
+  const getUploadFile = useCallback(
+    (path: string): File | undefined =>
+      preprocess.enabled ? processedFiles[path]?.file : fileMapRef.current.get(path),
+    [preprocess.enabled, processedFiles]
+  );
+
+  const processFiles = useCallback(async (dropped: SourceFile[]) => {
+    const sources: SourceFile[] = [];
     const newErrors: string[] = [];
 
-    for (const file of files) {
-      const validation = validateImageFile(file);
+    // Expand ZIP archives so each entry is validated and matched on its own
+    for (const source of dropped) {
+      if (isZipFile(source.file)) {
+        try {
+          const contents = await extractZipEntries(
+            source,
+            preprocess.enabled ? MAX_PREPROCESS_SIZE_BYTES : MAX_FILE_SIZE_BYTES
+          );
+          sources.push(...contents.files);
+          newErrors.push(...contents.errors);
+        } catch (error) {
+          newErrors.push(error instanceof Error ? error.message : `Could not read ${source.path}`);
+        }
+      } else {
+        sources.push(source);
+      }
+    }
+
+    const validFiles: ImageFile[] = [];
+
+    for (const { file, path } of sources) {
+      // A spreadsheet dropped with the images maps them to products
+      if (isManifestFile(file)) {
+        try {
+          setManifest(await readManifestFile(file));
+        } catch (error) {
+          newErrors.push(`${path}: ${error instanceof Error ? error.message : "Could not read manifest"}`);
+        }
+        continue;
+      }
+
+      // Processing shrinks images, so files over the upload limit are accepted while it is on
+      const validation = validateImageFile(
+        file,
+        preprocess.enabled ? MAX_PREPROCESS_SIZE_BYTES : MAX_FILE_SIZE_BYTES
+      );
       if (validation.valid) {
-        // Store the file in the ref for later upload
-        fileMapRef.current.set(file.name, file);
+        // Store the file in the ref for later upload, keyed by path so
+        // files with the same name in different folders don't collide
+        fileMapRef.current.set(path, file);
         validFiles.push({
           name: file.name,
+          path,
           size: file.size,
           type: file.type,
           previewUrl: URL.createObjectURL(file),
           file: file,
+          // Same-named files are told apart by path; the hash finds the same image under any name
+          contentHash: await hashFile(file),
+          info: await readImageInfo(file).catch(() => null),
         });
       } else {
-        newErrors.push(`${file.name}: ${validation.error}`);
+        newErrors.push(`${path}: ${validation.error}`);
       }
     }
 
@@ -224,19 +802,25 @@ export default function Index() {
 
     if (validFiles.length > 0) {
       setImages((prev) => {
-        const existingNames = new Set(prev.map((f) => f.name));
-        const uniqueNewFiles = validFiles.filter((f) => !existingNames.has(f.name));
+        const existingPaths = new Set(prev.map((f) => f.path));
+        const uniqueNewFiles = validFiles.filter((f) => !existingPaths.has(f.path));
         return [...prev, ...uniqueNewFiles];
       });
     }
-  }, []);
+  }, [preprocess.enabled]);
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-      if (e.dataTransfer.files?.length) {
-        processFiles(e.dataTransfer.files);
+      if (e.dataTransfer.items?.length) {
+        // Read the drop synchronously; folders are then walked in the background
+        readDroppedFiles(e.dataTransfer)
+          .then(processFiles)
+          .catch((error) => {
+            console.error("Could not read dropped files:", error);
+            setErrors(["Could not read the dropped files. Try dropping them again."]);
+          });
       }
     },
     [processFiles]
@@ -245,15 +829,94 @@ export default function Index() {
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files?.length) {
-        processFiles(e.target.files);
+        processFiles(toSourceFiles(e.target.files));
         e.target.value = "";
       }
     },
     [processFiles]
   );
 
-  const handleRemoveImage = useCallback((imageName: string) => {
-    setImages((prev) => prev.filter((f) => f.name !== imageName));
+  // Check pasted URLs a request at a time, then add the ones that passed as images
+  const handleAddUrls = useCallback(async (text: string) => {
+    const sources = parseUrlList(text);
+    if (sources.length === 0) {
+      setErrors(["No image URLs found. Add one URL per line, or handle,url pairs."]);
+      return;
+    }
+
+    const checks = new Map<string, RemoteImageCheck>();
+    for (let i = 0; i < sources.length; i += MAX_PREFLIGHT_URLS) {
+      const chunk = sources.slice(i, i + MAX_PREFLIGHT_URLS);
+      setUrlCheckProgress(`Checking URLs (${i} of ${sources.length} done)...`);
+      const formData = new FormData();
+      formData.append("intent", "preflight");
+      formData.append("urls", JSON.stringify(chunk.map((source) => source.url)));
+      try {
+        const response = await fetch("/app/api/upload", { method: "POST", body: formData });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        for (const check of data.checks as RemoteImageCheck[]) {
+          checks.set(check.url, check);
+        }
+      } catch (preflightError) {
+        console.error("Could not check URLs:", preflightError);
+        for (const source of chunk) {
+          checks.set(source.url, {
+            url: source.url,
+            ok: false,
+            contentType: null,
+            size: null,
+            error: preflightError instanceof Error ? preflightError.message : "Could not check URL",
+          });
+        }
+      }
+    }
+    setUrlCheckProgress("");
+
+    const newImages: ImageFile[] = [];
+    const newErrors: string[] = [];
+    for (const source of sources) {
+      const check = checks.get(source.url);
+      if (check?.ok) {
+        newImages.push({
+          name: filenameFromUrl(source.url),
+          path: source.url,
+          size: check.size ?? 0,
+          type: check.contentType?.split(";")[0] ?? "",
+          previewUrl: source.url,
+          sourceUrl: source.url,
+          matchKey: source.handle,
+        });
+      } else {
+        newErrors.push(`${source.url}: ${check?.error}`);
+      }
+    }
+
+    if (newErrors.length > 0) {
+      setErrors(newErrors);
+    }
+    if (newImages.length > 0) {
+      setImages((prev) => {
+        const existingPaths = new Set(prev.map((f) => f.path));
+        return [...prev, ...newImages.filter((f) => !existingPaths.has(f.path))];
+      });
+      setUrlText("");
+    }
+  }, []);
+
+  const handleUrlCsvInput = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (file) {
+        handleAddUrls(await file.text());
+      }
+    },
+    [handleAddUrls]
+  );
+
+  const handleRemoveImage = useCallback((imagePath: string) => {
+    setImages((prev) => prev.filter((f) => f.path !== imagePath));
   }, []);
 
   const handleClearAll = useCallback(() => {
@@ -265,69 +928,559 @@ export default function Index() {
     setImages([]);
     setMatchResults([]);
     setUploadResults([]);
+    setAssignments({});
+    setManifest(null);
   }, [images]);
 
+  const handlePreprocessChange = useCallback((change: Partial<PreprocessOptions>) => {
+    setPreprocess((prev) => ({ ...prev, ...change }));
+  }, []);
+
+  // Empty or invalid numbers turn a rule off
+  const handleQualityRuleChange = useCallback((change: Partial<QualityRules>) => {
+    const sanitized = Object.fromEntries(
+      Object.entries(change).map(([key, value]) => [
+        key,
+        typeof value === "number" ? Math.max(0, Number.isFinite(value) ? value : 0) : value,
+      ])
+    );
+    setQualityRules((prev) => ({ ...prev, ...sanitized }));
+  }, []);
+
+  const handleSaveQualityRules = useCallback(() => {
+    qualityRulesFetcher.submit(
+      { intent: "save-quality-rules", rules: JSON.stringify(qualityRules) },
+      { method: "POST", action: "/app/api/upload" }
+    );
+  }, [qualityRulesFetcher, qualityRules]);
+
+  const handleAltTemplateChange = useCallback((locale: string, template: string) => {
+    setAltTemplates((prev) => ({ ...prev, [locale]: template }));
+  }, []);
+
+  const handleSaveAltTemplates = useCallback(() => {
+    altTemplateFetcher.submit(
+      { intent: "save-alt-templates", templates: JSON.stringify(altTemplates) },
+      { method: "POST", action: "/app/api/upload" }
+    );
+  }, [altTemplateFetcher, altTemplates]);
+
+  const handleApplyAltText = useCallback(() => {
+    altTextFetcher.submit(
+      {
+        intent: "apply-alt-text",
+        productIds: JSON.stringify(products.map((product) => product.id)),
+        onlyMissing: String(altOnlyMissing),
+      },
+      { method: "POST", action: "/app/api/upload" }
+    );
+  }, [altTextFetcher, products, altOnlyMissing]);
+
+  const handlePublishRuleChange = useCallback((change: Partial<PublishRules>) => {
+    setPublishRules((prev) => ({ ...prev, ...change }));
+  }, []);
+
+  const handleTogglePublication = useCallback((publication: Publication, enabled: boolean) => {
+    setPublishRules((prev) => ({
+      ...prev,
+      publications: enabled
+        ? [...prev.publications, publication]
+        : prev.publications.filter((p) => p.id !== publication.id),
+    }));
+  }, []);
+
+  const handleApplyScope = useCallback(
+    (nextScope: ProductScope) => {
+      setSearchParams((prev) => applyProductScope(prev, nextScope));
+    },
+    [setSearchParams]
+  );
+
+  const handleAssignProduct = useCallback((imagePath: string, product: ShopifyProduct) => {
+    setAssignments((prev) => ({ ...prev, [imagePath]: product }));
+  }, []);
+
+  const handleClearAssignment = useCallback((imagePath: string) => {
+    setAssignments((prev) => {
+      const next = { ...prev };
+      delete next[imagePath];
+      return next;
+    });
+  }, []);
+
+  const handlePickProduct = useCallback(
+    async (imagePath: string) => {
+      const selection = await shopify.resourcePicker({
+        type: "product",
+        action: "select",
+        filter: { variants: false },
+      });
+      const picked = selection?.[0];
+      if (!picked) return;
+
+      // Prefer the loaded product, which carries variants for filename option tokens
+      const product = products.find((p) => p.id === picked.id) ?? {
+        id: picked.id,
+        handle: picked.handle,
+        title: picked.title,
+        status: picked.status,
+        featuredImage: picked.images[0] ? { url: picked.images[0].originalSrc } : null,
+        mediaCount: { count: picked.images.length },
+        media: { edges: [] },
+      };
+      handleAssignProduct(imagePath, product);
+    },
+    [shopify, products, handleAssignProduct]
+  );
+
+  const handleToggleStrategy = useCallback((id: MatchStrategyId, enabled: boolean) => {
+    setStrategyOrder((prev) =>
+      enabled ? [...prev.filter((s) => s !== id), id] : prev.filter((s) => s !== id)
+    );
+  }, []);
+
+  const handleMoveStrategy = useCallback((id: MatchStrategyId, offset: -1 | 1) => {
+    setStrategyOrder((prev) => {
+      const index = prev.indexOf(id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
   const handleUpload = useCallback(async () => {
-    const matched = matchResults.filter((r) => r.matched && r.product);
-    if (matched.length === 0) return;
+    // Upload each product's images in gallery order, since media is appended
+    const candidates = sortForUpload(matchResults.filter((r) => r.matched && r.product));
+
+    // Images left out of the run, with the reason shown in the results
+    const getSkipReason = (match: MatchResult): string | null => {
+      if (mediaPolicy === "skip" && countExistingMedia(match.product!) > 0) {
+        return "Skipped because the product already has images";
+      }
+      if (!uploadDuplicates && duplicates.has(match.image.path)) {
+        return "Skipped as a duplicate";
+      }
+      const issues = qualityIssues.get(match.image.path) ?? [];
+      const qualityErrors = issues.filter((issue) => issue.severity === "error");
+      if (qualityErrors.length > 0) {
+        return `Fails quality rules: ${qualityErrors.map((issue) => issue.message).join("; ")}`;
+      }
+      if (!uploadWithWarnings && issues.length > 0) {
+        return `Quality warnings: ${issues.map((issue) => issue.message).join("; ")}`;
+      }
+      return null;
+    };
+
+    const altFor = (match: MatchResult) => {
+      const text = altTexts.get(match.image.path);
+      return { alt: text?.alt, altTranslations: text?.translations };
+    };
+
+    const results: UploadResult[] = [];
+    const allMatched = candidates.filter((match) => {
+      const reason = getSkipReason(match);
+      if (reason) {
+        results.push({
+          filename: match.image.path,
+          productId: match.product!.id,
+          success: false,
+          skipped: true,
+          error: reason,
+        });
+      }
+      return !reason;
+    });
+    if (allMatched.length === 0) {
+      setUploadResults(results);
+      return;
+    }
+
+    // Each variant shows one image: the first of its images in the run
+    const runVariantImages = getVariantImages(allMatched);
+    const variantIdsFor = (match: MatchResult) =>
+      (runVariantImages.get(match.image.path) ?? []).map((v) => v.id);
+
+    // Remote images are imported by Shopify straight from their URLs after the files
+    const matched = allMatched.filter((r) => !r.image.sourceUrl);
+    const urlMatches = allMatched.filter((r) => r.image.sourceUrl);
 
     setIsUploadingState(true);
     setUploadProgress("Starting uploads...");
     setUploadResults([]);
+    setPublishResults(null);
+    setBackgroundJobId(null);
 
-    const results: UploadResult[] = [];
+    // Featured images are moved to the front in the order they are created: the server worker
+    // follows the run's order, while in the browser files go before remote images
+    const positions =
+      mediaPolicy === "featured"
+        ? featuredPositions(runOnServer ? allMatched : [...matched, ...urlMatches])
+        : new Map<string, number>();
 
     try {
-      // Upload each file to the server (server handles staged uploads)
-      for (let i = 0; i < matched.length; i++) {
-        const match = matched[i];
-        const file = fileMapRef.current.get(match.image.name);
+      // Record the run in the upload history; uploads still go ahead if that fails
+      let jobId: string | null = null;
+      const itemIds = new Map<string, string>();
+      try {
+        const jobFormData = new FormData();
+        jobFormData.append("intent", "create-job");
+        jobFormData.append("background", String(runOnServer));
+        jobFormData.append("mediaPolicy", mediaPolicy);
+        if (publishRules.enabled) {
+          jobFormData.append("publishRules", JSON.stringify(publishRules));
+        }
+        jobFormData.append(
+          "items",
+          JSON.stringify(
+            allMatched.map((match) => ({
+              filename: match.image.path,
+              productId: match.product!.id,
+              productTitle: match.product!.title,
+              ...altFor(match),
+              variantIds: variantIdsFor(match),
+              sourceUrl: match.image.sourceUrl,
+              position: positions.get(match.image.path) ?? null,
+              contentHash: match.image.contentHash,
+            }))
+          )
+        );
+        const jobResponse = await fetch("/app/api/upload", {
+          method: "POST",
+          body: jobFormData,
+        });
+        const jobData = await jobResponse.json();
+        jobId = jobData.jobId;
+        for (const item of jobData.items as Array<{ id: string; filename: string }>) {
+          itemIds.set(item.filename, item.id);
+        }
+      } catch (jobError) {
+        console.error("Could not record upload job:", jobError);
+      }
+
+      // Clear the galleries being replaced; the removed media is kept with the job for undo
+      if (mediaPolicy === "replace") {
+        if (!jobId) {
+          throw new Error("Could not record the upload job, so existing images were not replaced");
+        }
+
+        setUploadProgress("Removing existing images...");
+        const replaceFormData = new FormData();
+        replaceFormData.append("intent", "replace-media");
+        replaceFormData.append("jobId", jobId);
+        replaceFormData.append(
+          "productIds",
+          JSON.stringify(Array.from(new Set(allMatched.map((match) => match.product!.id))))
+        );
+        const replaceResponse = await fetch("/app/api/upload", {
+          method: "POST",
+          body: replaceFormData,
+        });
+        const replaceData = await replaceResponse.json();
+        if (!replaceData.success) {
+          throw new Error(replaceData.error ?? "Could not remove existing images");
+        }
+        const replaceErrors = (
+          replaceData.results as Array<{ productId: string; error?: string }>
+        ).filter((r) => r.error);
+        if (replaceErrors.length > 0) {
+          const titles = new Map(allMatched.map((match) => [match.product!.id, match.product!.title]));
+          setErrors(
+            replaceErrors.map(
+              (r) => `${titles.get(r.productId)}: existing images were not all removed (${r.error})`
+            )
+          );
+        }
+      }
+
+      if (runOnServer) {
+        if (!jobId) {
+          throw new Error("Could not start the upload on the server");
+        }
 
+        // Copy the files to the server; remote images are fetched by Shopify and need no staging
+        const staged = new Set(urlMatches.map((match) => match.image.path));
+        for (let i = 0; i < matched.length; i++) {
+          const match = matched[i];
+          const file = getUploadFile(match.image.path);
+          const itemId = itemIds.get(match.image.path);
+          if (!file || !itemId) continue;
+
+          setUploadProgress(`Sending ${i + 1} of ${matched.length} to the server: ${match.image.path}`);
+
+          const stageFormData = new FormData();
+          stageFormData.append("intent", "stage-file");
+          stageFormData.append("jobId", jobId);
+          stageFormData.append("itemId", itemId);
+          stageFormData.append("file", file);
+          try {
+            const response = await fetch("/app/api/upload", {
+              method: "POST",
+              body: stageFormData,
+            });
+            const data = await response.json();
+            if (data.success) {
+              staged.add(match.image.path);
+            }
+          } catch (stageError) {
+            console.error(`Error staging ${match.image.path}:`, stageError);
+          }
+        }
+
+        // Files that didn't reach the server are failed by the job and stay in the list
+        const startFormData = new FormData();
+        startFormData.append("intent", "start-job");
+        startFormData.append("jobId", jobId);
+        await fetch("/app/api/upload", { method: "POST", body: startFormData });
+
+        setBackgroundJobId(jobId);
+        setUploadResults(results);
+        setImages((prev) => prev.filter((img) => !staged.has(img.path)));
+        shopify.toast.show(`${staged.size} images are uploading on the server`);
+        return;
+      }
+
+      // Upload files to the server (server handles staged uploads) in batches, a few at a time;
+      // each product's images stay in one batch, or in batches that run in order
+      const uploadable = matched.filter((match) => {
+        const file = getUploadFile(match.image.path);
+        let error: string | undefined;
         if (!file) {
-          console.error(`File not found: ${match.image.name}`);
-          results.push({
-            filename: match.image.name,
-            productId: match.product!.id,
-            success: false,
-            error: "File not found",
-          });
-          continue;
+          error = processedFiles[match.image.path]?.error ?? "File not found";
+          console.error(`${error}: ${match.image.path}`);
+        } else if (file.size > MAX_FILE_SIZE_BYTES) {
+          error = validateImageFile(file).error;
+        }
+        if (!error) return true;
+
+        results.push({
+          filename: match.image.path,
+          productId: match.product!.id,
+          success: false,
+          error,
+        });
+        return false;
+      });
+      const uploadSize = (match: MatchResult) => getUploadFile(match.image.path)!.size;
+      const batches = packIntoBatches(uploadable, (match) => match.product!.id, uploadSize);
+
+      // Progress counts bytes sent to storage, so large files move the needle as they go
+      let finished = 0;
+      const totalBytes = uploadable.reduce((total, match) => total + uploadSize(match), 0);
+      const bytesSent = new Map<string, number>();
+      const reportProgress = () => {
+        const sent = Array.from(bytesSent.values()).reduce((total, bytes) => total + bytes, 0);
+        const percent = totalBytes > 0 ? Math.round((sent / totalBytes) * 100) : 100;
+        setUploadProgress(
+          `Uploading ${percent}% (${finished} of ${uploadable.length} images done)...`
+        );
+      };
+      reportProgress();
+
+      const toResult = (match: MatchResult, result: Partial<UploadResult>): UploadResult => ({
+        filename: match.image.path,
+        productId: match.product!.id,
+        success: result.success ?? false,
+        error: result.error,
+        warning: result.warning,
+        mediaId: result.mediaId,
+        attempts: result.attempts,
+        mediaStatus: result.mediaStatus,
+      });
+
+      // Fallback: send the files through the app server, which stages them itself
+      const postThroughServer = async (batch: MatchResult[]): Promise<UploadResult[]> => {
+        const formData = new FormData();
+        formData.append("intent", "upload-batch");
+        for (const match of batch) {
+          formData.append("files", getUploadFile(match.image.path)!);
         }
+        formData.append(
+          "items",
+          JSON.stringify(
+            batch.map((match) => ({
+              productId: match.product!.id,
+              ...altFor(match),
+              variantIds: variantIdsFor(match),
+              position: positions.get(match.image.path) ?? null,
+              itemId: itemIds.get(match.image.path),
+            }))
+          )
+        );
 
-        setUploadProgress(`Uploading ${i + 1} of ${matched.length}: ${match.image.name}`);
+        const response = await fetch("/app/api/upload", {
+          method: "POST",
+          body: formData,
+        });
+        if (response.status === 413) {
+          throw new Error("Too large to send through the app server after the direct upload failed");
+        }
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || "Upload failed");
+        }
+        return batch.map((match, index) => toResult(match, data.results[index]));
+      };
 
-        try {
-          const formData = new FormData();
-          formData.append("intent", "upload-file");
-          formData.append("file", file);
-          formData.append("productId", match.product!.id);
+      // Requests stay under the host's body limit, one after another so a product split over
+      // several of them still has its images created in order
+      const uploadThroughServer = async (batch: MatchResult[]): Promise<UploadResult[]> => {
+        const serverResults: UploadResult[] = [];
+        const requests = packIntoBatches(
+          batch,
+          (match) => match.product!.id,
+          uploadSize,
+          MAX_BATCH_FILES,
+          MAX_PROXY_BATCH_BYTES
+        );
+        for (const request of requests) {
+          try {
+            serverResults.push(...(await postThroughServer(request)));
+          } catch (uploadError) {
+            console.error("Error uploading batch:", uploadError);
+            for (const match of request) {
+              serverResults.push(
+                toResult(match, {
+                  success: false,
+                  error: uploadError instanceof Error ? uploadError.message : "Upload failed",
+                })
+              );
+            }
+          }
+        }
+        return serverResults;
+      };
 
-          const response = await fetch("/app/api/upload", {
-            method: "POST",
-            body: formData,
-          });
-          const data = await response.json();
+      // Post the files straight to staged storage, then have the server attach them.
+      // Returns the files that need the fallback: every file of a product with a failed
+      // direct upload, so that product's images are still created in order.
+      const uploadDirect = async (batch: MatchResult[]) => {
+        const targetsFormData = new FormData();
+        targetsFormData.append("intent", "stage-targets");
+        targetsFormData.append(
+          "files",
+          JSON.stringify(
+            batch.map((match) => {
+              const file = getUploadFile(match.image.path)!;
+              return {
+                // Processing may change the extension
+                filename: match.image.path.replace(/[^/]+$/, file.name),
+                mimeType: file.type,
+                fileSize: file.size,
+                productId: match.product!.id,
+              };
+            })
+          )
+        );
+        const targetsResponse = await fetch("/app/api/upload", {
+          method: "POST",
+          body: targetsFormData,
+        });
+        const targetsData = await targetsResponse.json();
+        if (!targetsData.success) {
+          throw new Error(targetsData.error || "Could not create upload targets");
+        }
+        const targets: Array<{ target: StagedTarget | null; error?: string }> =
+          targetsData.targets;
+
+        const directResults: UploadResult[] = [];
+        const failedProducts = new Set<string>();
+        await Promise.all(
+          batch.map(async (match, index) => {
+            const { target, error } = targets[index];
+            if (!target) {
+              directResults.push(toResult(match, { success: false, error }));
+              return;
+            }
+            try {
+              await uploadToStagedTarget(target, getUploadFile(match.image.path)!, (sent) => {
+                bytesSent.set(match.image.path, sent);
+                reportProgress();
+              });
+            } catch (directError) {
+              console.warn(`Direct upload of ${match.image.path} failed:`, directError);
+              failedProducts.add(match.product!.id);
+            }
+          })
+        );
 
-          results.push({
-            filename: match.image.name,
-            productId: match.product!.id,
-            success: data.success,
-            error: data.error,
+        const fallback = batch.filter(
+          (match, index) => targets[index].target && failedProducts.has(match.product!.id)
+        );
+        const staged = batch.filter(
+          (match, index) => targets[index].target && !failedProducts.has(match.product!.id)
+        );
+        if (staged.length > 0) {
+          const attachFormData = new FormData();
+          attachFormData.append("intent", "attach-media");
+          attachFormData.append(
+            "items",
+            JSON.stringify(
+              staged.map((match) => ({
+                resourceUrl: targets[batch.indexOf(match)].target!.resourceUrl,
+                productId: match.product!.id,
+                filename: match.image.path,
+                ...altFor(match),
+                variantIds: variantIdsFor(match),
+                position: positions.get(match.image.path) ?? null,
+                itemId: itemIds.get(match.image.path),
+              }))
+            )
+          );
+          const attachResponse = await fetch("/app/api/upload", {
+            method: "POST",
+            body: attachFormData,
           });
-        } catch (uploadError) {
-          console.error(`Error uploading ${match.image.name}:`, uploadError);
-          results.push({
-            filename: match.image.name,
-            productId: match.product!.id,
-            success: false,
-            error: uploadError instanceof Error ? uploadError.message : "Upload failed",
+          const attachData = await attachResponse.json();
+          staged.forEach((match, index) => {
+            directResults.push(
+              toResult(
+                match,
+                attachData.success
+                  ? attachData.results[index]
+                  : { success: false, error: attachData.error || "Upload failed" }
+              )
+            );
           });
         }
-      }
+
+        return { results: directResults, fallback };
+      };
+
+      await runGroupedConcurrently(batches, (batch) => batch[0].product!.id, concurrency, async (batch) => {
+        let fallback = batch;
+        try {
+          const direct = await uploadDirect(batch);
+          results.push(...direct.results);
+          fallback = direct.fallback;
+        } catch (directError) {
+          console.warn("Direct upload failed, sending the batch through the app server:", directError);
+        }
+
+        if (fallback.length > 0) {
+          results.push(...(await uploadThroughServer(fallback)));
+        }
+
+        for (const match of batch) {
+          bytesSent.set(match.image.path, uploadSize(match));
+        }
+        finished += batch.length;
+        reportProgress();
+      });
+
+      setUploadProgress("Waiting for Shopify to process the images...");
+      const matchesByPath = new Map(uploadable.map((match) => [match.image.path, match]));
+      await finishUploadedMedia(results, (result) => ({
+        variantIds: matchesByPath.has(result.filename)
+          ? variantIdsFor(matchesByPath.get(result.filename)!)
+          : [],
+        itemId: itemIds.get(result.filename),
+      }));
 
       setUploadResults(results);
       const succeeded = results.filter((r) => r.success).length;
-      const failed = results.filter((r) => !r.success).length;
+      const failed = results.filter((r) => !r.success && !r.skipped).length;
 
       if (succeeded > 0) {
         shopify.toast.show(`Successfully uploaded ${succeeded} images${failed > 0 ? `, ${failed} failed` : ""}`);
@@ -336,10 +1489,40 @@ export default function Index() {
         const successfulFilenames = new Set(
           results.filter((r) => r.success).map((r) => r.filename)
         );
-        setImages((prev) => prev.filter((img) => !successfulFilenames.has(img.name)));
+        setImages((prev) => prev.filter((img) => !successfulFilenames.has(img.path)));
       } else if (failed > 0) {
         shopify.toast.show(`Failed to upload ${failed} images`, { isError: true });
       }
+
+      // The URL import completes the job once its media has been checked
+      if (urlMatches.length > 0) {
+        urlVariantIdsRef.current = new Map(
+          urlMatches.map((match) => [match.image.path, variantIdsFor(match)])
+        );
+        fetcher.submit(
+          {
+            intent: "upload",
+            jobId: jobId ?? "",
+            uploads: JSON.stringify(
+              urlMatches.map((match) => ({
+                productId: match.product!.id,
+                imageUrl: match.image.sourceUrl,
+                filename: match.image.path,
+                ...altFor(match),
+                position: positions.get(match.image.path) ?? null,
+                itemId: itemIds.get(match.image.path),
+              }))
+            ),
+            concurrency,
+          },
+          { method: "POST" }
+        );
+      } else if (jobId) {
+        if (publishRules.enabled) {
+          setUploadProgress("Setting ready products to Active...");
+        }
+        setPublishResults(await completeUploadJob(jobId));
+      }
     } catch (error) {
       console.error("Upload error:", error);
       shopify.toast.show(
@@ -350,9 +1533,50 @@ export default function Index() {
       setIsUploadingState(false);
       setUploadProgress("");
     }
-  }, [matchResults, shopify]);
+  }, [
+    matchResults,
+    runOnServer,
+    concurrency,
+    mediaPolicy,
+    publishRules,
+    uploadDuplicates,
+    duplicates,
+    qualityIssues,
+    uploadWithWarnings,
+    altTexts,
+    getUploadFile,
+    processedFiles,
+    shopify,
+    fetcher,
+  ]);
 
   const matchedCount = matchResults.filter((r) => r.matched).length;
+  const duplicateCount = matchResults.filter(
+    (r) => r.matched && duplicates.has(r.image.path)
+  ).length;
+  const qualityWarningCount = matchResults.filter(
+    (r) =>
+      r.matched &&
+      qualityIssues.get(r.image.path)?.every((issue) => issue.severity === "warning")
+  ).length;
+  const uploadCount = matchResults.filter((r) => {
+    if (!r.matched) return false;
+    const issues = qualityIssues.get(r.image.path) ?? [];
+    if (issues.some((issue) => issue.severity === "error")) return false;
+    if (issues.length > 0 && !uploadWithWarnings) return false;
+    return uploadDuplicates || !duplicates.has(r.image.path);
+  }).length;
+  const retriedCount = uploadResults.filter((r) => (r.attempts ?? 1) > 1).length;
+  const skippedCount = uploadResults.filter((r) => r.skipped).length;
+  // Uploads whose media Shopify hadn't finished processing when polling stopped
+  const processingCount = uploadResults.filter(
+    (r) => r.success && r.mediaStatus && r.mediaStatus !== "READY"
+  ).length;
+  const progressMessage =
+    uploadProgress ||
+    processingProgress ||
+    urlCheckProgress ||
+    (fetcher.state !== "idle" ? "Importing images from URLs..." : "");
 
   return (
     <s-page heading="Bulk Image Uploader">
@@ -367,7 +1591,7 @@ export default function Index() {
           >
             <s-stack direction="block" gap="tight">
               <s-text variant="bodyMd" tone="subdued">
-                Draft Products
+                {scopeLabel}
               </s-text>
               <s-text variant="headingLg">{products.length}</s-text>
             </s-stack>
@@ -403,100 +1627,534 @@ export default function Index() {
         </s-stack>
       </s-section>
 
+      {/* Product Scope */}
+      <ProductScopeSection
+        scope={scope}
+        collections={collections}
+        onApply={handleApplyScope}
+        disabled={isUploading}
+      />
+
+      {/* Match Strategies */}
+      <s-section heading="Match images by">
+        <s-stack direction="block" gap="tight">
+          {[
+            ...strategyOrder,
+            ...DEFAULT_STRATEGY_ORDER.filter((id) => !strategyOrder.includes(id)),
+          ].map((id) => {
+            const index = strategyOrder.indexOf(id);
+            const enabled = index !== -1;
+            return (
+              <s-stack key={id} direction="inline" gap="base" alignItems="center">
+                <s-checkbox
+                  label={enabled ? `${index + 1}. ${MATCH_STRATEGIES[id].label}` : MATCH_STRATEGIES[id].label}
+                  checked={enabled}
+                  disabled={enabled && strategyOrder.length === 1}
+                  onChange={(e) => handleToggleStrategy(id, e.currentTarget.checked)}
+                />
+                {enabled && (
+                  <s-button-group>
+                    <s-button
+                      slot="secondary-actions"
+                      variant="tertiary"
+                      icon="arrow-up"
+                      accessibilityLabel={`Try ${MATCH_STRATEGIES[id].label} earlier`}
+                      disabled={index === 0}
+                      onClick={() => handleMoveStrategy(id, -1)}
+                    />
+                    <s-button
+                      slot="secondary-actions"
+                      variant="tertiary"
+                      icon="arrow-down"
+                      accessibilityLabel={`Try ${MATCH_STRATEGIES[id].label} later`}
+                      disabled={index === strategyOrder.length - 1}
+                      onClick={() => handleMoveStrategy(id, 1)}
+                    />
+                  </s-button-group>
+                )}
+              </s-stack>
+            );
+          })}
+        </s-stack>
+      </s-section>
+
       {/* Dropzone */}
       <s-section heading="Upload Images">
-        <div
-          onDragEnter={(e) => {
-            e.preventDefault();
-            setIsDragging(true);
-          }}
-          onDragLeave={(e) => {
-            e.preventDefault();
-            setIsDragging(false);
-          }}
-          onDragOver={(e) => e.preventDefault()}
-          onDrop={handleDrop}
-          style={{
-            border: `2px dashed ${isDragging ? "#008060" : "#c9cccf"}`,
-            borderRadius: "8px",
-            padding: "40px",
-            textAlign: "center",
-            backgroundColor: isDragging ? "#f1f8f5" : "#fafbfb",
-            cursor: "pointer",
-            position: "relative",
-          }}
-        >
-          <input
-            type="file"
-            multiple
-            accept={SUPPORTED_EXTENSIONS.join(",")}
-            onChange={handleFileInput}
+        <s-stack direction="inline" gap="tight" paddingBlockEnd="base">
+          <s-button
+            variant={sourceMode === "files" ? "primary" : "secondary"}
+            onClick={() => setSourceMode("files")}
+          >
+            Files
+          </s-button>
+          <s-button
+            variant={sourceMode === "urls" ? "primary" : "secondary"}
+            onClick={() => setSourceMode("urls")}
+          >
+            From URLs
+          </s-button>
+        </s-stack>
+        {sourceMode === "files" ? (
+          <div
+            onDragEnter={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+            }}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
             style={{
-              position: "absolute",
-              inset: 0,
-              width: "100%",
-              height: "100%",
-              opacity: 0,
+              border: `2px dashed ${isDragging ? "#008060" : "#c9cccf"}`,
+              borderRadius: "8px",
+              padding: "40px",
+              textAlign: "center",
+              backgroundColor: isDragging ? "#f1f8f5" : "#fafbfb",
               cursor: "pointer",
+              position: "relative",
             }}
+          >
+            <input
+              type="file"
+              multiple
+              accept={[...SUPPORTED_EXTENSIONS, ".zip", ...MANIFEST_EXTENSIONS].join(",")}
+              onChange={handleFileInput}
+              style={{
+                position: "absolute",
+                inset: 0,
+                width: "100%",
+                height: "100%",
+                opacity: 0,
+                cursor: "pointer",
+              }}
+            />
+            <s-stack direction="block" gap="base" align="center">
+              <s-icon name="ImageIcon" />
+              <s-text variant="headingSm">
+                {isDragging ? "Drop images here" : "Drag and drop product images or folders"}
+              </s-text>
+              <s-text variant="bodySm" tone="subdued">
+                or click to browse. Supports PNG, JPG, WEBP, GIF (max 20MB each) and ZIP archives
+              </s-text>
+              <s-text variant="bodySm" tone="subdued">
+                Name images with the product handle (e.g., blue-widget.png, blue-widget-2.png)
+              </s-text>
+            </s-stack>
+          </div>
+        ) : (
+          <s-stack direction="block" gap="base">
+            <s-text-area
+              label="Image URLs"
+              details="One URL per line, or handle,url pairs to choose the product"
+              rows={6}
+              value={urlText}
+              onInput={(e) => setUrlText(e.currentTarget.value)}
+            />
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <s-button
+                variant="primary"
+                disabled={!urlText.trim() || !!urlCheckProgress}
+                {...(urlCheckProgress ? { loading: true } : {})}
+                onClick={() => handleAddUrls(urlText)}
+              >
+                Check and add URLs
+              </s-button>
+              <label>
+                <s-text>or upload a CSV of handle,url pairs </s-text>
+                <input type="file" accept=".csv,text/csv" onChange={handleUrlCsvInput} />
+              </label>
+            </s-stack>
+          </s-stack>
+        )}
+      </s-section>
+
+      {/* Image Processing */}
+      <s-section heading="Image processing">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Process images before upload"
+            details="Resizes and re-encodes images in your browser, applies their rotation and removes metadata such as camera locations. Files over 20MB are accepted while this is on."
+            checked={preprocess.enabled}
+            disabled={isUploading}
+            onChange={(e) => handlePreprocessChange({ enabled: e.currentTarget.checked })}
           />
-          <s-stack direction="block" gap="base" align="center">
-            <s-icon name="ImageIcon" />
-            <s-text variant="headingSm">
-              {isDragging ? "Drop images here" : "Drag and drop product images"}
-            </s-text>
-            <s-text variant="bodySm" tone="subdued">
-              or click to browse. Supports PNG, JPG, WEBP, GIF (max 20MB each)
-            </s-text>
-            <s-text variant="bodySm" tone="subdued">
-              Name images with the product handle (e.g., blue-widget.png)
-            </s-text>
+          {preprocess.enabled && (
+            <s-grid gridTemplateColumns="repeat(3, 1fr)" gap="base">
+              <s-number-field
+                label="Longest edge"
+                value={String(preprocess.maxEdge)}
+                min={0}
+                step={1}
+                suffix="px"
+                details="0 keeps the original size"
+                onChange={(e) =>
+                  handlePreprocessChange({ maxEdge: Math.max(0, Number(e.currentTarget.value) || 0) })
+                }
+              />
+              <s-select
+                label="Format"
+                value={preprocess.format}
+                onChange={(e) =>
+                  handlePreprocessChange({ format: e.currentTarget.value as PreprocessFormat })
+                }
+              >
+                {PREPROCESS_FORMATS.map((format) => (
+                  <s-option key={format.value} value={format.value}>
+                    {format.label}
+                  </s-option>
+                ))}
+              </s-select>
+              <s-number-field
+                label="Quality"
+                value={String(preprocess.quality)}
+                min={1}
+                max={100}
+                step={1}
+                onChange={(e) =>
+                  handlePreprocessChange({
+                    quality: Math.min(100, Math.max(1, Number(e.currentTarget.value) || 1)),
+                  })
+                }
+              />
+              <s-checkbox
+                label="Pad to a square"
+                checked={preprocess.padToSquare}
+                onChange={(e) => handlePreprocessChange({ padToSquare: e.currentTarget.checked })}
+              />
+              <s-color-field
+                label="Background colour"
+                details="Fills the padding, and transparent areas of JPEG images"
+                value={preprocess.background}
+                onChange={(e) => handlePreprocessChange({ background: e.currentTarget.value })}
+              />
+            </s-grid>
+          )}
+        </s-stack>
+      </s-section>
+
+      {/* Quality Rules */}
+      <s-section heading="Quality rules">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Every rule is off until you set it. Images that break a rule can&apos;t be uploaded;
+            warnings can be overridden when you upload. Set a value to 0 to turn its rule off.
+          </s-paragraph>
+          <s-grid gridTemplateColumns="repeat(3, 1fr)" gap="base">
+            <s-number-field
+              label="Minimum width"
+              value={String(qualityRules.minWidth)}
+              min={0}
+              step={1}
+              suffix="px"
+              onChange={(e) => handleQualityRuleChange({ minWidth: Number(e.currentTarget.value) })}
+            />
+            <s-number-field
+              label="Minimum height"
+              value={String(qualityRules.minHeight)}
+              min={0}
+              step={1}
+              suffix="px"
+              onChange={(e) => handleQualityRuleChange({ minHeight: Number(e.currentTarget.value) })}
+            />
+            <s-number-field
+              label="Maximum megapixels"
+              value={String(qualityRules.maxMegapixels)}
+              min={0}
+              step={1}
+              suffix="MP"
+              onChange={(e) =>
+                handleQualityRuleChange({ maxMegapixels: Number(e.currentTarget.value) })
+              }
+            />
+            <s-number-field
+              label="Minimum aspect ratio"
+              details="Width divided by height, e.g. 1 for square"
+              value={String(qualityRules.minAspectRatio)}
+              min={0}
+              step={0.01}
+              onChange={(e) =>
+                handleQualityRuleChange({ minAspectRatio: Number(e.currentTarget.value) })
+              }
+            />
+            <s-number-field
+              label="Maximum aspect ratio"
+              value={String(qualityRules.maxAspectRatio)}
+              min={0}
+              step={0.01}
+              onChange={(e) =>
+                handleQualityRuleChange({ maxAspectRatio: Number(e.currentTarget.value) })
+              }
+            />
+          </s-grid>
+          <s-stack direction="inline" gap="base">
+            <s-checkbox
+              label="Warn about CMYK images"
+              checked={qualityRules.warnCmyk}
+              onChange={(e) => handleQualityRuleChange({ warnCmyk: e.currentTarget.checked })}
+            />
+            <s-checkbox
+              label="Warn about transparent images"
+              checked={qualityRules.warnTransparency}
+              onChange={(e) =>
+                handleQualityRuleChange({ warnTransparency: e.currentTarget.checked })
+              }
+            />
           </s-stack>
-        </div>
+          <s-stack direction="inline" gap="base">
+            <s-button
+              onClick={handleSaveQualityRules}
+              disabled={qualityRulesFetcher.state !== "idle"}
+              {...(qualityRulesFetcher.state !== "idle" ? { loading: true } : {})}
+            >
+              Save as default
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Alt text">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Images without alt text from a manifest get it from these templates. Tokens are
+            replaced with each product&apos;s details:{" "}
+            {ALT_TEXT_TOKENS.map((t) => `${t.token} (${t.description.toLowerCase()})`).join(", ")}.
+          </s-paragraph>
+          <s-text-field
+            label="Alt text template"
+            value={altTemplates[PRIMARY_LOCALE_KEY] ?? ""}
+            placeholder={DEFAULT_ALT_TEXT_TEMPLATE}
+            onChange={(e) => handleAltTemplateChange(PRIMARY_LOCALE_KEY, e.currentTarget.value)}
+          />
+          {locales.length > 0 && (
+            <s-grid gridTemplateColumns="repeat(2, 1fr)" gap="base">
+              {locales.map((locale) => (
+                <s-text-field
+                  key={locale.locale}
+                  label={`${locale.name} template`}
+                  details="Leave empty to keep the alt text untranslated"
+                  value={altTemplates[locale.locale] ?? ""}
+                  onChange={(e) => handleAltTemplateChange(locale.locale, e.currentTarget.value)}
+                />
+              ))}
+            </s-grid>
+          )}
+          <s-stack direction="inline" gap="base">
+            <s-button
+              onClick={handleSaveAltTemplates}
+              disabled={!altTemplatesChanged || altTemplateFetcher.state !== "idle"}
+              {...(altTemplateFetcher.state !== "idle" ? { loading: true } : {})}
+            >
+              Save templates
+            </s-button>
+            <s-button
+              variant="secondary"
+              onClick={handleApplyAltText}
+              disabled={
+                altTemplatesChanged || products.length === 0 || altTextFetcher.state !== "idle"
+              }
+              {...(altTextFetcher.state !== "idle" ? { loading: true } : {})}
+            >
+              Apply to existing images of {products.length} products
+            </s-button>
+            <s-checkbox
+              label="Only images without alt text"
+              checked={altOnlyMissing}
+              onChange={(e) => setAltOnlyMissing(e.currentTarget.checked)}
+            />
+          </s-stack>
+          {altTemplatesChanged && (
+            <s-text color="subdued">Save the templates to apply them to existing images.</s-text>
+          )}
+          {altTextResults && altTextFetcher.state === "idle" && (
+            <s-banner tone={altTextResults.some((r) => r.error) ? "warning" : "success"}>
+              <s-text>
+                Updated the alt text of{" "}
+                {altTextResults.reduce((total, r) => total + r.updated, 0)} images on{" "}
+                {altTextResults.filter((r) => r.updated > 0).length} products
+              </s-text>
+              {altTextResults.some((r) => r.error) && (
+                <s-unordered-list>
+                  {altTextResults
+                    .filter((r) => r.error)
+                    .map((r) => (
+                      <s-list-item key={r.productId}>
+                        {r.title ?? r.productId}: {r.error}
+                      </s-list-item>
+                    ))}
+                </s-unordered-list>
+              )}
+            </s-banner>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Publish when ready">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Set draft products to Active after their images are added"
+            details="Runs once the upload finishes, for products that pass the rules below. Every change is listed with the results and in the upload history."
+            checked={publishRules.enabled}
+            disabled={isUploading}
+            onChange={(e) => handlePublishRuleChange({ enabled: e.currentTarget.checked })}
+          />
+          {publishRules.enabled && (
+            <>
+              <s-stack direction="inline" gap="base">
+                <s-number-field
+                  label="Minimum images"
+                  value={String(publishRules.minImages)}
+                  min={0}
+                  step={1}
+                  onChange={(e) =>
+                    handlePublishRuleChange({
+                      minImages: Math.max(0, Math.round(Number(e.currentTarget.value) || 0)),
+                    })
+                  }
+                />
+              </s-stack>
+              <s-checkbox
+                label="All images processed by Shopify"
+                checked={publishRules.requireMediaReady}
+                onChange={(e) =>
+                  handlePublishRuleChange({ requireMediaReady: e.currentTarget.checked })
+                }
+              />
+              <s-checkbox
+                label="Every variant has a price"
+                checked={publishRules.requirePrice}
+                onChange={(e) => handlePublishRuleChange({ requirePrice: e.currentTarget.checked })}
+              />
+              {publications.length > 0 && (
+                <s-stack direction="block" gap="small-200">
+                  <s-text>Also publish to</s-text>
+                  {publications.map((publication) => (
+                    <s-checkbox
+                      key={publication.id}
+                      label={publication.name}
+                      checked={publishRules.publications.some((p) => p.id === publication.id)}
+                      onChange={(e) =>
+                        handleTogglePublication(publication, e.currentTarget.checked)
+                      }
+                    />
+                  ))}
+                </s-stack>
+              )}
+            </>
+          )}
+        </s-stack>
       </s-section>
 
       {/* Errors */}
-      {errors.length > 0 && (
+      {(errors.length > 0 || manifestErrors.length > 0) && (
         <s-section>
-          <s-banner tone="critical" onDismiss={() => setErrors([])}>
-            <s-text variant="bodyMd">Some files could not be added:</s-text>
-            <s-unordered-list>
-              {errors.map((error, i) => (
-                <s-list-item key={i}>{error}</s-list-item>
-              ))}
-            </s-unordered-list>
+          <s-banner
+            tone="critical"
+            onDismiss={() => {
+              setErrors([]);
+              setManifestErrors([]);
+            }}
+          >
+            {errors.length > 0 && (
+              <>
+                <s-text variant="bodyMd">Some files could not be added:</s-text>
+                <s-unordered-list>
+                  {errors.map((error, i) => (
+                    <s-list-item key={i}>{error}</s-list-item>
+                  ))}
+                </s-unordered-list>
+              </>
+            )}
+            {manifestErrors.length > 0 && (
+              <>
+                <s-text variant="bodyMd">
+                  Some rows in {manifest?.source ?? "the manifest"} could not be applied:
+                </s-text>
+                <s-unordered-list>
+                  {manifestErrors.map((error, i) => (
+                    <s-list-item key={i}>{error}</s-list-item>
+                  ))}
+                </s-unordered-list>
+              </>
+            )}
           </s-banner>
         </s-section>
       )}
 
+      {/* Manifest */}
+      {manifest && (
+        <s-section>
+          <s-stack direction="inline" gap="base" alignItems="center">
+            <s-badge tone="info">Manifest</s-badge>
+            <s-text>
+              Matching with {manifest.source} ({manifest.rows.length} rows)
+            </s-text>
+            <s-button variant="tertiary" onClick={() => setManifest(null)}>
+              Remove
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+
       {/* Upload Progress */}
-      {uploadProgress && (
+      {progressMessage && (
         <s-section>
           <s-banner tone="info">
             <s-stack direction="inline" gap="base" align="center">
               <s-spinner size="small" />
-              <s-text variant="bodyMd">{uploadProgress}</s-text>
+              <s-text variant="bodyMd">{progressMessage}</s-text>
             </s-stack>
           </s-banner>
         </s-section>
       )}
 
+      {/* Background Job */}
+      {backgroundJobId && !progressMessage && (
+        <s-section>
+          <s-banner tone="info">
+            <s-text>
+              This batch is uploading on the server. You can close this page and{" "}
+              <s-link href={`/app/history/${backgroundJobId}`}>follow its progress</s-link>{" "}
+              in the upload history.
+            </s-text>
+          </s-banner>
+        </s-section>
+      )}
+
       {/* Upload Results */}
-      {uploadResults.length > 0 && !uploadProgress && (
+      {uploadResults.length > 0 && !progressMessage && (
         <s-section>
           <s-banner
             tone={
-              uploadResults.every((r) => r.success) ? "success" : "warning"
+              uploadResults.every((r) => r.skipped || (r.success && !r.warning))
+                ? "success"
+                : "warning"
             }
           >
             <s-text variant="bodyMd">
               Uploaded {uploadResults.filter((r) => r.success).length} of{" "}
-              {uploadResults.length} images
+              {uploadResults.length - skippedCount} images
+              {skippedCount > 0 && `, skipped ${skippedCount}`}
+              {processingCount > 0 && `, ${processingCount} still processing`}
+              {retriedCount > 0 &&
+                ` (${retriedCount} needed more than one attempt)`}
             </s-text>
-            {uploadResults.some((r) => !r.success) && (
+            {uploadResults.some((r) => r.warning) && (
+              <s-unordered-list>
+                {uploadResults
+                  .filter((r) => r.warning)
+                  .map((r, i) => (
+                    <s-list-item key={i}>
+                      {r.filename}: {r.warning}
+                    </s-list-item>
+                  ))}
+              </s-unordered-list>
+            )}
+            {uploadResults.some((r) => !r.success && !r.skipped) && (
               <s-unordered-list>
                 {uploadResults
-                  .filter((r) => !r.success)
+                  .filter((r) => !r.success && !r.skipped)
                   .map((r, i) => (
                     <s-list-item key={i}>
                       {r.filename}: {r.error}
@@ -508,6 +2166,25 @@ export default function Index() {
         </s-section>
       )}
 
+      {/* Publish Results */}
+      {publishResults && publishResults.length > 0 && !progressMessage && (
+        <s-section>
+          <s-banner tone={publishResults.every((r) => r.toStatus && !r.note) ? "success" : "info"}>
+            <s-text variant="bodyMd">
+              Set {publishResults.filter((r) => r.toStatus).length} of {publishResults.length}{" "}
+              products to Active
+            </s-text>
+            <s-unordered-list>
+              {publishResults.map((r) => (
+                <s-list-item key={r.productId}>
+                  {r.title ?? r.productId}: {describePublishResult(r)}
+                </s-list-item>
+              ))}
+            </s-unordered-list>
+          </s-banner>
+        </s-section>
+      )}
+
       {/* Match Results Table */}
       {images.length > 0 && (
         <s-section heading="Image Matches">
@@ -518,18 +2195,64 @@ export default function Index() {
             <s-button
               onClick={handleUpload}
               variant="primary"
-              disabled={matchedCount === 0 || isUploading}
+              disabled={uploadCount === 0 || isUploading || !!processingProgress}
               {...(isUploading ? { loading: true } : {})}
             >
-              Upload {matchedCount} Images
+              Upload {uploadCount} Images
             </s-button>
+            <s-number-field
+              label="Parallel uploads"
+              value={String(concurrency)}
+              min={1}
+              max={MAX_UPLOAD_CONCURRENCY}
+              step={1}
+              suffix="at a time"
+              disabled={isUploading || runOnServer}
+              onChange={(e) => setConcurrency(normalizeConcurrency(Number(e.currentTarget.value)))}
+            />
+            <s-checkbox
+              label="Process on the server"
+              details="Keeps uploading after you close this page. Use this for large batches."
+              checked={runOnServer}
+              disabled={isUploading}
+              onChange={(e) => setRunOnServer(e.currentTarget.checked)}
+            />
+            {qualityWarningCount > 0 && (
+              <s-checkbox
+                label={`Upload ${qualityWarningCount} images with quality warnings`}
+                checked={uploadWithWarnings}
+                disabled={isUploading}
+                onChange={(e) => setUploadWithWarnings(e.currentTarget.checked)}
+              />
+            )}
+            {duplicateCount > 0 && (
+              <s-checkbox
+                label={`Upload ${duplicateCount} duplicates anyway`}
+                details="Duplicates have the same content as another image for the same product."
+                checked={uploadDuplicates}
+                disabled={isUploading}
+                onChange={(e) => setUploadDuplicates(e.currentTarget.checked)}
+              />
+            )}
+            <s-select
+              label="Products with images"
+              value={mediaPolicy}
+              disabled={isUploading}
+              onChange={(e) => setMediaPolicy(e.currentTarget.value as ExistingMediaPolicy)}
+            >
+              {MEDIA_POLICIES.map((policy) => (
+                <s-option key={policy.value} value={policy.value}>
+                  {policy.label}
+                </s-option>
+              ))}
+            </s-select>
           </s-stack>
 
           <s-data-table>
             <s-data-table-header>
               <s-data-table-row>
                 <s-data-table-heading>Filename</s-data-table-heading>
-                <s-data-table-heading>Handle</s-data-table-heading>
+                <s-data-table-heading>Match key</s-data-table-heading>
                 <s-data-table-heading>Product</s-data-table-heading>
                 <s-data-table-heading>Status</s-data-table-heading>
                 <s-data-table-heading>Actions</s-data-table-heading>
@@ -537,44 +2260,164 @@ export default function Index() {
             </s-data-table-header>
             <s-data-table-body>
               {matchResults.map((result) => (
-                <s-data-table-row key={result.image.name}>
+                <s-data-table-row key={result.image.path}>
                   <s-data-table-cell>
                     <s-stack direction="block" gap="tight">
                       <s-text variant="bodyMd">{result.image.name}</s-text>
+                      {result.image.path !== result.image.name && (
+                        <s-text variant="bodySm" tone="subdued">
+                          {result.image.path}
+                        </s-text>
+                      )}
                       <s-text variant="bodySm" tone="subdued">
                         {(result.image.size / 1024 / 1024).toFixed(2)} MB
+                        {processedFiles[result.image.path]?.file &&
+                          ` → ${(processedFiles[result.image.path].file!.size / 1024 / 1024).toFixed(2)} MB`}
                       </s-text>
+                      {processedFiles[result.image.path]?.error && (
+                        <s-text variant="bodySm" tone="critical">
+                          {processedFiles[result.image.path].error}
+                        </s-text>
+                      )}
                     </s-stack>
                   </s-data-table-cell>
                   <s-data-table-cell>
-                    <s-text variant="bodyMd" tone="subdued">
-                      {result.handle}
-                    </s-text>
+                    <s-stack direction="block" gap="tight">
+                      <s-text variant="bodyMd" tone="subdued">
+                        {result.handle}
+                      </s-text>
+                      {result.strategy && (
+                        <s-text variant="bodySm" tone="subdued">
+                          by {MATCH_STRATEGIES[result.strategy].label}
+                        </s-text>
+                      )}
+                      {result.position !== null && (
+                        <s-text variant="bodySm" tone="subdued">
+                          Position {result.position}
+                        </s-text>
+                      )}
+                    </s-stack>
                   </s-data-table-cell>
                   <s-data-table-cell>
                     {result.product ? (
-                      <s-text variant="bodyMd">{result.product.title}</s-text>
+                      <s-stack direction="block" gap="tight">
+                        <s-stack direction="inline" gap="small-200" alignItems="center">
+                          {result.product.featuredImage && (
+                            <s-thumbnail
+                              src={result.product.featuredImage.url}
+                              alt={`Current image of ${result.product.title}`}
+                              size="small"
+                            />
+                          )}
+                          <s-text variant="bodyMd">{result.product.title}</s-text>
+                        </s-stack>
+                        <s-text
+                          variant="bodySm"
+                          color="subdued"
+                          tone={
+                            (mediaPolicy === "skip" || mediaPolicy === "replace") &&
+                            countExistingMedia(result.product) > 0
+                              ? "caution"
+                              : undefined
+                          }
+                        >
+                          {describeMediaPolicy(mediaPolicy, countExistingMedia(result.product))}
+                        </s-text>
+                        {result.variants.length > 0 && (
+                          <s-text variant="bodySm" tone="subdued">
+                            {result.variants.map((v) => v.title).join(", ")}
+                          </s-text>
+                        )}
+                        {result.variants.some(
+                          (v) => !variantImages.get(result.image.path)?.includes(v)
+                        ) && (
+                          <s-text variant="bodySm" tone="subdued">
+                            Only added to the product: an earlier image is shown for{" "}
+                            {result.variants
+                              .filter((v) => !variantImages.get(result.image.path)?.includes(v))
+                              .map((v) => v.title)
+                              .join(", ")}
+                          </s-text>
+                        )}
+                        {result.variantTokens.length > 0 && result.variants.length === 0 && (
+                          <s-text variant="bodySm" tone="critical">
+                            No variant matches &quot;{result.variantTokens.join(", ")}&quot;
+                          </s-text>
+                        )}
+                        {altTexts.has(result.image.path) && (
+                          <s-text variant="bodySm" tone="subdued">
+                            Alt: {altTexts.get(result.image.path)!.alt}
+                          </s-text>
+                        )}
+                      </s-stack>
                     ) : (
-                      <s-text variant="bodyMd" tone="subdued">
-                        No match found
-                      </s-text>
+                      <s-stack direction="block" gap="tight">
+                        <s-text variant="bodyMd" tone="subdued">
+                          No match found
+                        </s-text>
+                        {result.suggestions.map((suggestion) => (
+                          <s-button
+                            key={suggestion.product.id}
+                            variant="tertiary"
+                            onClick={() =>
+                              handleAssignProduct(result.image.path, suggestion.product)
+                            }
+                          >
+                            Use {suggestion.product.title} ({Math.round(suggestion.score * 100)}%)
+                          </s-button>
+                        ))}
+                      </s-stack>
                     )}
                   </s-data-table-cell>
                   <s-data-table-cell>
-                    {result.matched ? (
-                      <s-badge tone="success">Matched</s-badge>
-                    ) : (
-                      <s-badge tone="critical">Unmatched</s-badge>
-                    )}
+                    <s-stack direction="block" gap="tight">
+                      {result.matched && result.source === "manual" ? (
+                        <s-badge tone="info">Assigned</s-badge>
+                      ) : result.matched && result.source === "manifest" ? (
+                        <s-badge tone="success">From manifest</s-badge>
+                      ) : result.matched ? (
+                        <s-badge tone="success">Matched</s-badge>
+                      ) : (
+                        <s-badge tone="critical">Unmatched</s-badge>
+                      )}
+                      {result.matched && (
+                        <DuplicateNote duplicate={duplicates.get(result.image.path)} />
+                      )}
+                      {qualityIssues.get(result.image.path)?.map((issue) => (
+                        <s-text
+                          key={issue.message}
+                          variant="bodySm"
+                          tone={issue.severity === "error" ? "critical" : "caution"}
+                        >
+                          {issue.message}
+                        </s-text>
+                      ))}
+                    </s-stack>
                   </s-data-table-cell>
                   <s-data-table-cell>
-                    <s-button
-                      variant="tertiary"
-                      tone="critical"
-                      onClick={() => handleRemoveImage(result.image.name)}
-                    >
-                      Remove
-                    </s-button>
+                    <s-stack direction="inline" gap="tight">
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => handlePickProduct(result.image.path)}
+                      >
+                        {result.matched ? "Change product" : "Assign product"}
+                      </s-button>
+                      {result.source === "manual" && (
+                        <s-button
+                          variant="tertiary"
+                          onClick={() => handleClearAssignment(result.image.path)}
+                        >
+                          Reset
+                        </s-button>
+                      )}
+                      <s-button
+                        variant="tertiary"
+                        tone="critical"
+                        onClick={() => handleRemoveImage(result.image.path)}
+                      >
+                        Remove
+                      </s-button>
+                    </s-stack>
                   </s-data-table-cell>
                 </s-data-table-row>
               ))}
@@ -589,11 +2432,14 @@ export default function Index() {
           <s-box padding="loose" background="subdued" borderRadius="base">
             <s-stack direction="block" gap="base" align="center">
               <s-text variant="bodyMd" tone="subdued">
-                Found <strong>{products.length}</strong> draft products.
+                Found <strong>{products.length}</strong> {scopeLabel.toLowerCase()}.
               </s-text>
               <s-text variant="bodySm" tone="subdued">
                 Drop images named with product handles to match and upload them.
               </s-text>
+              <s-link href={`/app/audit?${searchParams.toString()}`}>
+                See which of them still need images or alt text
+              </s-link>
             </s-stack>
           </s-box>
         </s-section>
@@ -603,11 +2449,60 @@ export default function Index() {
       <s-section slot="aside" heading="How it works">
         <s-unordered-list>
           <s-list-item>
-            Name your images with the product handle (e.g., blue-widget.png)
+            Name your images with the product handle (e.g., blue-widget.png), or with a
+            variant SKU, barcode or product title, and choose which to try first
+          </s-list-item>
+          <s-list-item>
+            Add a number to upload several images per product (e.g., blue-widget-1.png,
+            blue-widget_2.png, blue-widget@3.png); the number sets the gallery order
+          </s-list-item>
+          <s-list-item>
+            Add variant options after a double hyphen or underscore to attach an image to
+            matching variants (e.g., blue-widget--red.png, blue-widget__size-xl.png)
+          </s-list-item>
+          <s-list-item>
+            Set up <s-link href="/app/settings">filename rules</s-link> to strip prefixes such
+            as IMG_, suffixes such as _web, or map underscores to hyphens before matching
           </s-list-item>
           <s-list-item>
             Drop images here to automatically match them to products
           </s-list-item>
+          <s-list-item>
+            Drop folders or a ZIP archive with one folder per product handle (e.g.,
+            blue-widget/front.jpg); files in a folder are added in filename order
+          </s-list-item>
+          <s-list-item>
+            Drop a CSV or XLSX manifest with filename, handle or sku, alt, position and variant
+            columns to map images explicitly; listed images ignore the filename rules
+          </s-list-item>
+          <s-list-item>
+            Choose From URLs to import images your suppliers host; each URL is checked for
+            type and size before it is added
+          </s-list-item>
+          <s-list-item>
+            Use Assign product to pick the product for an unmatched image, or to correct a
+            wrong match
+          </s-list-item>
+          <s-list-item>
+            Choose what happens to products that already have images: add after them, add and
+            make the new image featured, replace them, or skip those products
+          </s-list-item>
+          <s-list-item>
+            Images with the same content as another image for the same product, or as one
+            uploaded to it before, are skipped unless you choose to upload duplicates
+          </s-list-item>
+          <s-list-item>
+            Turn on quality rules to keep small, oddly shaped or oversized images out; CMYK and
+            transparent images can get warnings you override
+          </s-list-item>
+          <s-list-item>
+            Turn on Publish when ready to set draft products to Active, and publish them, once
+            they have enough processed images and every variant has a price
+          </s-list-item>
+          <s-list-item>
+            Build alt text from a template such as {"{title} – {variant}"}, with one per shop
+            language, and apply it to images already on your products
+          </s-list-item>
           <s-list-item>
             Review matches and click Upload to add images to products
           </s-list-item>
@@ -616,7 +2511,8 @@ export default function Index() {
 
       <s-section slot="aside" heading="Supported formats">
         <s-text variant="bodySm" tone="subdued">
-          PNG, JPG, JPEG, WEBP, GIF (max 20MB each)
+          PNG, JPG, JPEG, WEBP, GIF (max 20MB each, or 100MB with image processing on), or ZIP
+          archives of them
         </s-text>
       </s-section>
     </s-page>
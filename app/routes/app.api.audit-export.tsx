@@ -0,0 +1,28 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { buildAuditCsv, parseAuditView, selectAuditRows } from "../lib/audit";
+import { getAuditProducts } from "../lib/audit.server";
+import { buildProductSearchQuery, parseProductScope } from "../lib/scope";
+
+/**
+ * Export the shot list of every product in scope as CSV
+ * The report pages through large catalogs, so the export reads the whole scope here and applies
+ * the report's filter, search and sort to all of it.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const searchParams = new URL(request.url).searchParams;
+  const query = buildProductSearchQuery(parseProductScope(searchParams));
+  const view = parseAuditView(searchParams);
+
+  const { products } = await getAuditProducts(admin.graphql, session.shop, query, null);
+  const rows = selectAuditRows(products, view);
+
+  return new Response(
+    buildAuditCsv(
+      rows.map((row) => row.product),
+      view.minImages,
+    ),
+    { headers: { "Content-Type": "text/csv;charset=utf-8" } },
+  );
+};
@@ -1,143 +1,382 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import {
+  completeUploadJob,
+  createUploadJob,
+  findUploadedContent,
+  getStageableUploadItem,
+  isReplacingUploadJob,
+  recordReplacedMedia,
+  recordUploadItemResult,
+  stageUploadItem,
+  startUploadJob,
+} from "../models/UploadJob.server";
+import type { NewUploadItem } from "../models/UploadJob.server";
+import { saveAltTextTemplates } from "../models/AltTextTemplate.server";
+import { saveQualityRules } from "../models/ShopSettings.server";
+import {
+  attachStagedMedia,
+  createStagedUploadTargets,
+  finishMedia,
+  removeProductMedia,
+  uploadFileToProduct,
+  uploadFilesToProducts,
+} from "../lib/upload.server";
+import type { CreatedMediaEntry, UploadFileResult } from "../lib/upload.server";
+import type { ExistingMediaPolicy, StagedTarget } from "../lib/types";
+import type { PublishRules } from "../lib/publish";
+import { publishJobProducts } from "../lib/publish.server";
+import type { QualityRules } from "../lib/quality";
+import { MAX_PREFLIGHT_URLS } from "../lib/remote";
+import { DEFAULT_UPLOAD_CONCURRENCY, runGroupedConcurrently } from "../lib/pool";
+import { checkRemoteImages } from "../lib/remote.server";
+import { applyAltTextTemplates } from "../lib/altText.server";
+import { discardStagedFile, stageUploadFile, startUploadWorker } from "../lib/worker.server";
 
-// GraphQL mutation to create staged upload targets
-const STAGED_UPLOADS_CREATE = `#graphql
-  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
-    stagedUploadsCreate(input: $input) {
-      stagedTargets {
-        url
-        resourceUrl
-        parameters {
-          name
-          value
-        }
-      }
-      userErrors {
-        field
-        message
-      }
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // Check pasted image URLs before they are added
+  if (intent === "preflight") {
+    const urls: string[] = JSON.parse(formData.get("urls") as string);
+    if (urls.length > MAX_PREFLIGHT_URLS) {
+      return { checks: [], error: `Add at most ${MAX_PREFLIGHT_URLS} URLs at a time` };
+    }
+    return { checks: await checkRemoteImages(urls) };
+  }
+
+  // Look up which images the upload history already added to their products
+  if (intent === "check-duplicates") {
+    const images: Array<{ productId: string; contentHash: string }> = JSON.parse(
+      formData.get("images") as string,
+    );
+    return { uploaded: await findUploadedContent(session.shop, images) };
+  }
+
+  if (intent === "save-alt-templates") {
+    const templates: Record<string, string> = JSON.parse(formData.get("templates") as string);
+    await saveAltTextTemplates(session.shop, templates);
+    return { altTemplates: templates };
+  }
+
+  if (intent === "save-quality-rules") {
+    const rules: QualityRules = JSON.parse(formData.get("rules") as string);
+    await saveQualityRules(session.shop, rules);
+    return { qualityRulesSaved: true };
+  }
+
+  // Rewrite the alt text of images already on the given products from the saved templates
+  if (intent === "apply-alt-text") {
+    const productIds: string[] = JSON.parse(formData.get("productIds") as string);
+    const onlyMissing = formData.get("onlyMissing") === "true";
+    return {
+      altTextResults: await applyAltTextTemplates(admin.graphql, session.shop, productIds, onlyMissing),
+    };
+  }
+
+  // Start a job so the run is kept in the upload history
+  if (intent === "create-job") {
+    const items: NewUploadItem[] = JSON.parse(formData.get("items") as string);
+    const publishRulesJson = formData.get("publishRules") as string | null;
+    const publishRules: PublishRules | null = publishRulesJson
+      ? JSON.parse(publishRulesJson)
+      : null;
+    const job = await createUploadJob(
+      session.shop,
+      {
+        id: sessionToken?.sub,
+        email: session.onlineAccessInfo?.associated_user.email,
+      },
+      items,
+      formData.get("background") === "true",
+      (formData.get("mediaPolicy") as ExistingMediaPolicy | null) ?? "append",
+      publishRules,
+    );
+    return { success: true, jobId: job.id, items: job.items };
+  }
+
+  // Delete the existing media of products a replacing run is about to upload to
+  if (intent === "replace-media") {
+    const jobId = formData.get("jobId") as string;
+    const productIds: string[] = JSON.parse(formData.get("productIds") as string);
+
+    // Without the job there is nowhere to keep the removed media, and the run couldn't be undone
+    if (!jobId || !(await isReplacingUploadJob(session.shop, jobId))) {
+      return { success: false, error: "Upload job not found", results: [] };
     }
+
+    // A few products at a time, so a large run doesn't burst past the Admin API rate limit
+    const results: Array<{ productId: string; removed: number; error?: string }> = [];
+    await runGroupedConcurrently(
+      productIds,
+      (productId) => productId,
+      DEFAULT_UPLOAD_CONCURRENCY,
+      async (productId) => {
+        try {
+          const { removed, error } = await removeProductMedia(admin.graphql, session.shop, productId);
+          await recordReplacedMedia(session.shop, jobId, productId, removed);
+          results.push({ productId, removed: removed.length, error });
+        } catch (error) {
+          console.error("Replace media error:", error);
+          results.push({
+            productId,
+            removed: 0,
+            error: error instanceof Error ? error.message : "Could not remove existing media",
+          });
+        }
+      },
+    );
+    return { success: true, results };
   }
-`;
-
-// GraphQL mutation to attach media to product
-const PRODUCT_CREATE_MEDIA = `#graphql
-  mutation ProductCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
-    productCreateMedia(productId: $productId, media: $media) {
-      media {
-        id
-      }
-      mediaUserErrors {
-        field
-        message
-      }
+
+  // Stage a file of a background job on the server; the worker uploads it later
+  if (intent === "stage-file") {
+    const file = formData.get("file") as File;
+    const jobId = formData.get("jobId") as string;
+    const itemId = formData.get("itemId") as string;
+
+    if (!file || !jobId || !itemId) {
+      return { success: false, error: "Missing file, jobId or itemId" };
+    }
+
+    // Check the item before writing anything, and build the path from the stored ids
+    const item = await getStageableUploadItem(session.shop, itemId);
+    if (!item || item.jobId !== jobId) {
+      return { success: false, error: "Upload item not found" };
     }
+
+    const stagedPath = await stageUploadFile(item.jobId, item.id, file);
+    const staged = await stageUploadItem(session.shop, item.id, {
+      path: stagedPath,
+      mimeType: file.type || "image/png",
+    });
+    if (!staged) {
+      await discardStagedFile(stagedPath);
+    }
+    return staged ? { success: true } : { success: false, error: "Upload item not found" };
   }
-`;
 
-interface UploadResult {
-  filename: string;
-  productId: string;
-  success: boolean;
-  error?: string;
-}
+  // Hand a staged background job to the worker
+  if (intent === "start-job") {
+    const started = await startUploadJob(session.shop, formData.get("jobId") as string);
+    if (started) {
+      startUploadWorker();
+    }
+    return started ? { success: true } : { success: false, error: "Upload job not found" };
+  }
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
-  
-  const formData = await request.formData();
-  const intent = formData.get("intent");
+  // Finish a browser job, then set the products that are ready to Active
+  if (intent === "complete-job") {
+    const jobId = formData.get("jobId") as string;
+    await completeUploadJob(session.shop, jobId);
+    const publishResults = await publishJobProducts(admin.graphql, session.shop, jobId);
+    return { success: true, publishResults };
+  }
 
   // Handle full server-side upload
   if (intent === "upload-file") {
     const file = formData.get("file") as File;
     const productId = formData.get("productId") as string;
+    const alt = formData.get("alt") as string | null;
+    const itemId = formData.get("itemId") as string | null;
+    const variantIdsJson = formData.get("variantIds") as string | null;
+    const variantIds: string[] = variantIdsJson ? JSON.parse(variantIdsJson) : [];
+    const position = formData.get("position") ? Number(formData.get("position")) : null;
+    const altTranslationsJson = formData.get("altTranslations") as string | null;
+    const altTranslations: Record<string, string> | null = altTranslationsJson
+      ? JSON.parse(altTranslationsJson)
+      : null;
     
     if (!file || !productId) {
       return { success: false, error: "Missing file or productId" };
     }
 
+    let result: UploadFileResult;
     try {
-      // Step 1: Create staged upload target
-      const stagedResponse = await admin.graphql(STAGED_UPLOADS_CREATE, {
-        variables: {
-          input: [{
-            filename: file.name,
-            mimeType: file.type || "image/png",
-            fileSize: file.size.toString(),
-            resource: "IMAGE",
-          }],
-        },
-      });
-      const stagedData = await stagedResponse.json();
-
-      if (stagedData.data.stagedUploadsCreate.userErrors.length > 0) {
-        return {
-          success: false,
-          error: stagedData.data.stagedUploadsCreate.userErrors
-            .map((e: { message: string }) => e.message)
-            .join(", "),
-        };
-      }
-
-      const target = stagedData.data.stagedUploadsCreate.stagedTargets[0];
-      
-      // Step 2: Upload file to staged URL (server-side)
-      const uploadFormData = new FormData();
-      for (const param of target.parameters) {
-        uploadFormData.append(param.name, param.value);
-      }
-      uploadFormData.append("file", file);
-
-      const uploadResponse = await fetch(target.url, {
-        method: "POST",
-        body: uploadFormData,
-      });
-
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        console.error("Staged upload failed:", errorText);
-        return {
-          success: false,
-          error: `Upload failed: ${uploadResponse.status}`,
-        };
-      }
-
-      // Step 3: Attach media to product
-      const mediaResponse = await admin.graphql(PRODUCT_CREATE_MEDIA, {
-        variables: {
-          productId,
-          media: [{
-            originalSource: target.resourceUrl,
-            mediaContentType: "IMAGE",
-            alt: file.name.replace(/\.[^.]+$/, ""),
-          }],
-        },
-      });
-      const mediaData = await mediaResponse.json();
-
-      if (mediaData.data.productCreateMedia.mediaUserErrors.length > 0) {
-        return {
-          success: false,
-          error: mediaData.data.productCreateMedia.mediaUserErrors
-            .map((e: { message: string }) => e.message)
-            .join(", "),
-        };
-      }
-
-      return {
-        success: true,
-        filename: file.name,
+      result = await uploadFileToProduct(admin.graphql, session.shop, {
+        file,
         productId,
-      };
+        alt,
+        variantIds,
+        position,
+        altTranslations,
+      });
     } catch (error) {
       console.error("Upload error:", error);
-      return {
+      result = {
         success: false,
         error: error instanceof Error ? error.message : "Upload failed",
       };
     }
+
+    if (itemId) {
+      await recordUploadItemResult(session.shop, itemId, result);
+    }
+
+    return {
+      ...result,
+      filename: file.name,
+      productId,
+    };
+  }
+
+  // Upload several files in one request: one staged upload call for all of them
+  // and one media call per product
+  if (intent === "upload-batch") {
+    const files = formData.getAll("files") as File[];
+    const items: Array<{
+      productId: string;
+      alt?: string;
+      variantIds?: string[];
+      position?: number | null;
+      altTranslations?: Record<string, string>;
+      itemId?: string;
+    }> = JSON.parse(formData.get("items") as string);
+
+    if (files.length === 0 || files.length !== items.length) {
+      return { success: false, error: "Each file needs exactly one item", results: [] };
+    }
+
+    let results: UploadFileResult[];
+    try {
+      results = await uploadFilesToProducts(
+        admin.graphql,
+        session.shop,
+        files.map((file, index) => ({
+          file,
+          productId: items[index].productId,
+          alt: items[index].alt || null,
+          variantIds: items[index].variantIds ?? [],
+          position: items[index].position ?? null,
+          altTranslations: items[index].altTranslations ?? null,
+        })),
+      );
+    } catch (error) {
+      console.error("Batch upload error:", error);
+      const message = error instanceof Error ? error.message : "Upload failed";
+      results = files.map(() => ({ success: false, error: message }));
+    }
+
+    await Promise.all(
+      items.map((item, index) =>
+        item.itemId ? recordUploadItemResult(session.shop, item.itemId, results[index]) : null,
+      ),
+    );
+
+    return {
+      success: true,
+      results: results.map((result, index) => ({
+        ...result,
+        filename: files[index].name,
+        productId: items[index].productId,
+      })),
+    };
+  }
+
+  // Create staged upload targets the browser posts files to directly, so the bytes
+  // never pass through this server
+  if (intent === "stage-targets") {
+    const files: Array<{
+      filename: string;
+      mimeType: string;
+      fileSize: number;
+      productId: string;
+    }> = JSON.parse(formData.get("files") as string);
+
+    const staged = await createStagedUploadTargets(
+      admin.graphql,
+      session.shop,
+      files.map((file) => ({
+        filename: file.filename.split("/").pop() || file.filename,
+        mimeType: file.mimeType || "image/png",
+        fileSize: file.fileSize,
+      })),
+    );
+
+    const targets: Array<{ target: StagedTarget | null; error?: string }> = staged.map(
+      ({ target, error }, index) => ({
+        target: target
+          ? { ...target, productId: files[index].productId, filename: files[index].filename }
+          : null,
+        error,
+      }),
+    );
+    return { success: true, targets };
+  }
+
+  // Attach files the browser uploaded to staged targets
+  if (intent === "attach-media") {
+    const items: Array<{
+      resourceUrl: string;
+      productId: string;
+      filename: string;
+      alt?: string;
+      variantIds?: string[];
+      position?: number | null;
+      altTranslations?: Record<string, string>;
+      itemId?: string;
+    }> = JSON.parse(formData.get("items") as string);
+
+    let results: UploadFileResult[];
+    try {
+      results = await attachStagedMedia(
+        admin.graphql,
+        session.shop,
+        items.map((item) => ({
+          originalSource: item.resourceUrl,
+          productId: item.productId,
+          alt: item.alt || (item.filename.split("/").pop() ?? item.filename).replace(/\.[^.]+$/, ""),
+          variantIds: item.variantIds ?? [],
+          position: item.position ?? null,
+          altTranslations: item.altTranslations ?? null,
+        })),
+      );
+    } catch (error) {
+      console.error("Attach media error:", error);
+      const message = error instanceof Error ? error.message : "Upload failed";
+      results = items.map(() => ({ success: false, error: message }));
+    }
+
+    await Promise.all(
+      items.map((item, index) =>
+        item.itemId ? recordUploadItemResult(session.shop, item.itemId, results[index]) : null,
+      ),
+    );
+
+    return {
+      success: true,
+      results: results.map((result, index) => ({
+        ...result,
+        filename: items[index].filename,
+        productId: items[index].productId,
+      })),
+    };
+  }
+
+  // Check on media created by earlier requests and attach the media that is ready to its variants;
+  // the browser asks again for media that is still processing
+  if (intent === "finish-media") {
+    const items: Array<CreatedMediaEntry & { itemId?: string }> = JSON.parse(
+      formData.get("items") as string,
+    );
+
+    const results = await finishMedia(admin.graphql, session.shop, items);
+    await Promise.all(
+      items.map((item, index) =>
+        item.itemId && results[index].error
+          ? recordUploadItemResult(session.shop, item.itemId, {
+              success: false,
+              mediaId: item.mediaId,
+              error: results[index].error,
+            })
+          : null,
+      ),
+    );
+
+    return { success: true, results };
   }
 
   return { success: false, error: "Invalid intent" };
@@ -0,0 +1,309 @@
+import { useMemo, useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useSearchParams } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import {
+  applyAuditView,
+  findAuditIssues,
+  selectAuditRows,
+  AUDIT_ISSUES,
+  AUDIT_SORTS,
+  DEFAULT_MIN_IMAGES,
+} from "../lib/audit";
+import type { AuditIssue, AuditSort, AuditView } from "../lib/audit";
+import { getAuditProducts } from "../lib/audit.server";
+import {
+  applyProductScope,
+  buildProductSearchQuery,
+  describeProductScope,
+  parseProductScope,
+} from "../lib/scope";
+import type { ProductScope } from "../lib/scope";
+import { getScopeCollections } from "../lib/scope.server";
+import { ProductScopeSection } from "../components/ProductScopeSection";
+
+// Query pages of 25 products audited per page of the report, so a load makes a bounded number
+// of sequential requests however large the catalog is
+const AUDIT_PAGES_PER_REPORT = 10;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const searchParams = new URL(request.url).searchParams;
+  const scope = parseProductScope(searchParams);
+  // Where this page of the report starts; large catalogs are audited a page at a time
+  const after = searchParams.get("after");
+
+  const { products, nextCursor } = await getAuditProducts(
+    admin.graphql,
+    session.shop,
+    buildProductSearchQuery(scope),
+    after,
+    AUDIT_PAGES_PER_REPORT,
+  );
+
+  const collections = await getScopeCollections(admin.graphql);
+
+  return {
+    products,
+    scope,
+    collections,
+    isFirstPage: !after,
+    nextCursor,
+  };
+};
+
+/**
+ * Save text as a file through a temporary link
+ */
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function CatalogAudit() {
+  const { products, scope, collections, isFirstPage, nextCursor } = useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const shopify = useAppBridge();
+  const scopeLabel = describeProductScope(scope);
+
+  const [issue, setIssue] = useState<AuditIssue | "">("");
+  const [minImages, setMinImages] = useState(DEFAULT_MIN_IMAGES);
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<AuditSort>("images");
+  const [descending, setDescending] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const view: AuditView = useMemo(
+    () => ({ issue, minImages, search, sort, descending }),
+    [issue, minImages, search, sort, descending]
+  );
+  const rows = useMemo(() => selectAuditRows(products, view), [products, view]);
+
+  const counts = useMemo(() => {
+    const found: Record<AuditIssue, number> = { "no-media": 0, "few-images": 0, "missing-alt": 0 };
+    for (const product of products) {
+      for (const productIssue of findAuditIssues(product, minImages)) {
+        found[productIssue]++;
+      }
+    }
+    return found;
+  }, [products, minImages]);
+
+  // A new scope starts the report from its first page
+  const handleApplyScope = (nextScope: ProductScope) => {
+    setSearchParams((prev) => {
+      const next = applyProductScope(prev, nextScope);
+      next.delete("after");
+      return next;
+    });
+  };
+
+  const handleReportPage = (cursor: string | null) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (cursor) {
+        next.set("after", cursor);
+      } else {
+        next.delete("after");
+      }
+      return next;
+    });
+  };
+
+  // The export covers every product in scope, not just this page, so the server builds it
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const params = applyAuditView(applyProductScope(new URLSearchParams(), scope), view);
+      const response = await fetch(`/app/api/audit-export?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Export failed: ${response.status}`);
+      }
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(`shot-list-${date}.csv`, await response.text(), "text/csv;charset=utf-8");
+    } catch (error) {
+      console.error("Export error:", error);
+      shopify.toast.show("Could not export the shot list", { isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Open the uploader on the same products, keeping the embedded app's own parameters
+  const uploaderUrl = `/app?${applyProductScope(searchParams, scope).toString()}`;
+
+  return (
+    <s-page heading="Catalog audit">
+      <s-button
+        slot="primary-action"
+        onClick={handleExport}
+        disabled={isFirstPage && !nextCursor && rows.length === 0}
+        loading={isExporting}
+      >
+        Export CSV
+      </s-button>
+
+      <ProductScopeSection scope={scope} collections={collections} onApply={handleApplyScope} />
+
+      <s-section heading="Summary">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            {isFirstPage && !nextCursor
+              ? "Every product in scope is audited. "
+              : `Large catalogs are audited ${AUDIT_PAGES_PER_REPORT * 25} products at a time; the counts cover this page only, and Export CSV covers every product in scope. `}
+            Alt text is checked on each product&apos;s first 20 media.
+          </s-paragraph>
+          {(!isFirstPage || nextCursor) && (
+            <s-stack direction="inline" gap="base">
+              {!isFirstPage && (
+                <s-button variant="tertiary" onClick={() => handleReportPage(null)}>
+                  Back to the first products
+                </s-button>
+              )}
+              {nextCursor && (
+                <s-button variant="secondary" onClick={() => handleReportPage(nextCursor)}>
+                  Next products
+                </s-button>
+              )}
+            </s-stack>
+          )}
+          <s-grid gridTemplateColumns="repeat(4, 1fr)" gap="base">
+            <s-stack direction="block" gap="small-200">
+              <s-text color="subdued">{scopeLabel}</s-text>
+              <s-text>{products.length}</s-text>
+            </s-stack>
+            {(Object.keys(AUDIT_ISSUES) as AuditIssue[]).map((key) => (
+              <s-stack key={key} direction="block" gap="small-200">
+                <s-text color="subdued">{AUDIT_ISSUES[key]}</s-text>
+                <s-text>{counts[key]}</s-text>
+              </s-stack>
+            ))}
+          </s-grid>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Products to fix">
+        <s-stack direction="block" gap="base">
+          <s-grid gridTemplateColumns="repeat(4, 1fr)" gap="base">
+            <s-select
+              label="Show"
+              value={issue}
+              onChange={(e) => setIssue(e.currentTarget.value as AuditIssue | "")}
+            >
+              <s-option value="">Any issue</s-option>
+              {(Object.keys(AUDIT_ISSUES) as AuditIssue[]).map((key) => (
+                <s-option key={key} value={key}>
+                  {AUDIT_ISSUES[key]}
+                </s-option>
+              ))}
+            </s-select>
+            <s-number-field
+              label="Minimum images"
+              details="Products with fewer have too few images"
+              value={String(minImages)}
+              min={0}
+              step={1}
+              onChange={(e) =>
+                setMinImages(Math.max(0, Math.round(Number(e.currentTarget.value) || 0)))
+              }
+            />
+            <s-select
+              label="Sort by"
+              value={`${sort}:${descending ? "desc" : "asc"}`}
+              onChange={(e) => {
+                const [nextSort, direction] = e.currentTarget.value.split(":");
+                setSort(nextSort as AuditSort);
+                setDescending(direction === "desc");
+              }}
+            >
+              {AUDIT_SORTS.flatMap((option) => [
+                <s-option key={`${option.value}:asc`} value={`${option.value}:asc`}>
+                  {option.label}, ascending
+                </s-option>,
+                <s-option key={`${option.value}:desc`} value={`${option.value}:desc`}>
+                  {option.label}, descending
+                </s-option>,
+              ])}
+            </s-select>
+            <s-search-field
+              label="Search"
+              placeholder="Title, handle, vendor or SKU"
+              value={search}
+              onInput={(e) => setSearch(e.currentTarget.value)}
+            />
+          </s-grid>
+
+          {rows.length === 0 ? (
+            <s-paragraph>No products with these issues.</s-paragraph>
+          ) : (
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Product</s-table-header>
+                <s-table-header>Status</s-table-header>
+                <s-table-header format="numeric">Images</s-table-header>
+                <s-table-header format="numeric">Without alt text</s-table-header>
+                <s-table-header listSlot="secondary">Issues</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {rows.map(({ product, issues }) => (
+                  <s-table-row key={product.id}>
+                    <s-table-cell>
+                      <s-stack direction="inline" gap="small-200" alignItems="center">
+                        {product.featuredImageUrl && (
+                          <s-thumbnail
+                            src={product.featuredImageUrl}
+                            alt={`Current image of ${product.title}`}
+                            size="small"
+                          />
+                        )}
+                        <s-link
+                          href={`shopify://admin/products/${product.id.split("/").pop()}`}
+                          target="_blank"
+                        >
+                          {product.title}
+                        </s-link>
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>
+                      {product.status.charAt(0) + product.status.slice(1).toLowerCase()}
+                    </s-table-cell>
+                    <s-table-cell>{product.mediaCount}</s-table-cell>
+                    <s-table-cell>{product.imagesWithoutAlt}</s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="inline" gap="small-200">
+                        {issues.map((productIssue) => (
+                          <s-badge
+                            key={productIssue}
+                            tone={productIssue === "missing-alt" ? "warning" : "critical"}
+                          >
+                            {AUDIT_ISSUES[productIssue]}
+                          </s-badge>
+                        ))}
+                      </s-stack>
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="Shot list">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Export CSV saves the products with these issues, across every page, with the
+            filenames each missing image should have, e.g. blue-widget-2.jpg. Images named that way match their product and
+            gallery position when you drop them on the uploader.
+          </s-paragraph>
+          <s-link href={uploaderUrl}>Open the uploader for these products</s-link>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
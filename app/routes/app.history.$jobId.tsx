@@ -0,0 +1,336 @@
+import { useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useRevalidator, useSearchParams } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  failAbandonedUploadJobs,
+  getUploadJob,
+  getUploadJobUndo,
+} from "../models/UploadJob.server";
+import { JobStatusBadge } from "../components/JobStatusBadge";
+import { undoUploadJob } from "../lib/undo.server";
+import { describePublishResult } from "../lib/publish";
+
+const ITEM_STATUSES = [
+  { value: "", label: "All images" },
+  { value: "succeeded", label: "Succeeded" },
+  { value: "failed", label: "Failed" },
+  { value: "queued", label: "Queued" },
+  { value: "processing", label: "Uploading" },
+  { value: "pending", label: "Pending" },
+  { value: "undone", label: "Undone" },
+];
+
+// How often an unfinished job's page reloads its progress
+const REFRESH_INTERVAL_MS = 5000;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const status = new URL(request.url).searchParams.get("status") ?? "";
+  const itemStatus = ITEM_STATUSES.some((s) => s.value === status) ? status : "";
+
+  await failAbandonedUploadJobs(session.shop);
+  const job = await getUploadJob(session.shop, params.jobId ?? "", itemStatus || undefined);
+  if (!job) {
+    throw new Response("Upload job not found", { status: 404 });
+  }
+
+  // Offer undo while the job has media left to delete or replaced images left to restore
+  const undo = await getUploadJobUndo(session.shop, job.id);
+  const canUndo = !!undo && (undo.items.length > 0 || undo.replacedMedia.some((m) => m.url));
+
+  return {
+    job: {
+      id: job.id,
+      userEmail: job.userEmail,
+      status: job.status,
+      background: job.background,
+      total: job.total,
+      succeeded: job.succeeded,
+      failed: job.failed,
+      createdAt: job.createdAt.toISOString(),
+      completedAt: job.completedAt?.toISOString() ?? null,
+      undoneAt: job.undoneAt?.toISOString() ?? null,
+      mediaPolicy: job.mediaPolicy,
+    },
+    items: job.items.map((item) => ({
+      id: item.id,
+      filename: item.filename,
+      productId: item.productId,
+      productTitle: item.productTitle,
+      mediaId: item.mediaId,
+      status: item.status,
+      error: item.error,
+    })),
+    statusChanges: job.statusChanges.map((change) => ({
+      id: change.id,
+      productId: change.productId,
+      title: change.productTitle,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      publications: change.publications,
+      note: change.note ?? undefined,
+    })),
+    itemStatus,
+    canUndo,
+  };
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "undo") {
+    const undo = await undoUploadJob(admin.graphql, session.shop, params.jobId ?? "");
+    if (!undo) {
+      return { success: false, error: "Only finished uploads can be undone" };
+    }
+    return { success: true, ...undo };
+  }
+
+  return { success: false, error: "Invalid intent" };
+};
+
+function ItemStatusBadge({ status }: { status: string }) {
+  if (status === "succeeded") return <s-badge tone="success">Succeeded</s-badge>;
+  if (status === "failed") return <s-badge tone="critical">Failed</s-badge>;
+  if (status === "processing") return <s-badge tone="info">Uploading</s-badge>;
+  if (status === "queued") return <s-badge>Queued</s-badge>;
+  if (status === "undone") return <s-badge tone="neutral">Undone</s-badge>;
+  return <s-badge>Pending</s-badge>;
+}
+
+export default function UploadJobDetail() {
+  const { job, items, statusChanges, itemStatus, canUndo } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const { revalidate } = useRevalidator();
+  const undoFetcher = useFetcher<typeof action>();
+  const isFinished = job.status === "completed" || job.status === "failed";
+  const isUndoing = undoFetcher.state !== "idle";
+  const undo = undoFetcher.data;
+
+  // Background jobs keep running on the server; keep their progress current
+  useEffect(() => {
+    if (isFinished) return;
+    const interval = setInterval(revalidate, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isFinished, revalidate]);
+
+  const handleStatusChange = (value: string) => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      if (value) params.set("status", value);
+      else params.delete("status");
+      return params;
+    });
+  };
+
+  const handleUndo = () => {
+    undoFetcher.submit({ intent: "undo" }, { method: "POST" });
+  };
+
+  return (
+    <s-page heading={`Upload of ${new Date(job.createdAt).toLocaleString()}`}>
+      <s-link slot="breadcrumb-actions" href="/app/history">
+        Upload history
+      </s-link>
+      {canUndo && (
+        <s-button
+          slot="secondary-actions"
+          tone="critical"
+          commandFor="undo-modal"
+          command="--show"
+          disabled={isUndoing}
+          {...(isUndoing ? { loading: true } : {})}
+        >
+          Undo this batch
+        </s-button>
+      )}
+
+      <s-modal id="undo-modal" heading="Undo this batch?">
+        <s-paragraph>
+          This deletes the images this upload added to products.
+          {job.mediaPolicy === "replace" &&
+            " The images it replaced are added back where possible."}
+        </s-paragraph>
+        <s-button
+          slot="primary-action"
+          variant="primary"
+          tone="critical"
+          commandFor="undo-modal"
+          command="--hide"
+          onClick={handleUndo}
+        >
+          Undo
+        </s-button>
+        <s-button slot="secondary-actions" commandFor="undo-modal" command="--hide">
+          Cancel
+        </s-button>
+      </s-modal>
+
+      {undo && !isUndoing && (
+        <s-section>
+          {undo.success && "items" in undo ? (
+            <s-banner
+              tone={
+                undo.items.every((item) => item.success) &&
+                undo.restores.every((restore) => restore.failed === 0)
+                  ? "success"
+                  : "warning"
+              }
+            >
+              <s-text>
+                Deleted {undo.items.filter((item) => item.success).length} of {undo.items.length}{" "}
+                images
+                {undo.restores.length > 0 &&
+                  `, restored ${undo.restores.reduce((total, r) => total + r.restored, 0)} replaced images`}
+              </s-text>
+              {undo.items.some((item) => !item.success) && (
+                <s-unordered-list>
+                  {undo.items
+                    .filter((item) => !item.success)
+                    .map((item) => (
+                      <s-list-item key={item.itemId}>
+                        {item.filename}: {item.error}
+                      </s-list-item>
+                    ))}
+                </s-unordered-list>
+              )}
+              {undo.restores.some((restore) => restore.failed > 0) && (
+                <s-unordered-list>
+                  {undo.restores
+                    .filter((restore) => restore.failed > 0)
+                    .map((restore) => (
+                      <s-list-item key={restore.productId}>
+                        {restore.failed} images of{" "}
+                        {restore.productTitle ?? restore.productId} could not be
+                        restored{restore.error ? `: ${restore.error}` : ""}
+                      </s-list-item>
+                    ))}
+                </s-unordered-list>
+              )}
+            </s-banner>
+          ) : (
+            <s-banner tone="critical">{undo.error}</s-banner>
+          )}
+        </s-section>
+      )}
+
+      <s-section heading="Summary">
+        <s-grid gridTemplateColumns="repeat(4, 1fr)" gap="base">
+          <s-stack direction="block" gap="small-200">
+            <s-text color="subdued">Status</s-text>
+            <s-stack direction="inline" gap="small-200">
+              <JobStatusBadge status={job.status} />
+              {job.background && <s-badge>On server</s-badge>}
+              {job.undoneAt && <s-badge tone="neutral">Undone</s-badge>}
+            </s-stack>
+          </s-stack>
+          <s-stack direction="block" gap="small-200">
+            <s-text color="subdued">Started by</s-text>
+            <s-text>{job.userEmail || "—"}</s-text>
+          </s-stack>
+          <s-stack direction="block" gap="small-200">
+            <s-text color="subdued">Images</s-text>
+            <s-text>
+              {job.succeeded} of {job.total} uploaded
+              {job.failed > 0 ? `, ${job.failed} failed` : ""}
+            </s-text>
+          </s-stack>
+          <s-stack direction="block" gap="small-200">
+            <s-text color="subdued">Finished</s-text>
+            <s-text>
+              {job.completedAt ? new Date(job.completedAt).toLocaleString() : "—"}
+            </s-text>
+          </s-stack>
+        </s-grid>
+      </s-section>
+
+      {statusChanges.length > 0 && (
+        <s-section heading="Product status">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Product</s-table-header>
+              <s-table-header listSlot="secondary">Change</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {statusChanges.map((change) => (
+                <s-table-row key={change.id}>
+                  <s-table-cell>
+                    <s-link
+                      href={`shopify://admin/products/${change.productId.split("/").pop()}`}
+                      target="_blank"
+                    >
+                      {change.title || change.productId}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {change.toStatus ? (
+                      <s-text>{describePublishResult(change)}</s-text>
+                    ) : (
+                      <s-text color="subdued">{describePublishResult(change)}</s-text>
+                    )}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      <s-section heading="Images">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Show"
+            value={itemStatus}
+            onChange={(e) => handleStatusChange(e.currentTarget.value)}
+          >
+            {ITEM_STATUSES.map((status) => (
+              <s-option key={status.value} value={status.value}>
+                {status.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          {items.length === 0 ? (
+            <s-paragraph>No images with this status.</s-paragraph>
+          ) : (
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">File</s-table-header>
+                <s-table-header>Product</s-table-header>
+                <s-table-header listSlot="secondary">Status</s-table-header>
+                <s-table-header>Details</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {items.map((item) => (
+                  <s-table-row key={item.id}>
+                    <s-table-cell>{item.filename}</s-table-cell>
+                    <s-table-cell>
+                      <s-link
+                        href={`shopify://admin/products/${item.productId.split("/").pop()}`}
+                        target="_blank"
+                      >
+                        {item.productTitle || item.productId}
+                      </s-link>
+                    </s-table-cell>
+                    <s-table-cell>
+                      <ItemStatusBadge status={item.status} />
+                    </s-table-cell>
+                    <s-table-cell>
+                      {item.error ? (
+                        <s-text tone="critical">{item.error}</s-text>
+                      ) : (
+                        <s-text color="subdued">{item.mediaId ?? "—"}</s-text>
+                      )}
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          )}
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useSearchParams } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  failAbandonedUploadJobs,
+  getUploadJobs,
+  UPLOAD_JOBS_PAGE_SIZE,
+  type UploadJobFilters,
+} from "../models/UploadJob.server";
+import { JobStatusBadge } from "../components/JobStatusBadge";
+
+const JOB_STATUSES = [
+  { value: "", label: "Any status" },
+  { value: "staging", label: "Sending files" },
+  { value: "running", label: "In progress" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read the history filters from the URL
+ */
+function parseFilters(searchParams: URLSearchParams): UploadJobFilters & { page: number } {
+  const status = searchParams.get("status") ?? "";
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+  const page = Number(searchParams.get("page"));
+
+  return {
+    status: JOB_STATUSES.some((s) => s.value === status) ? status : "",
+    from: DATE_PATTERN.test(from) ? from : "",
+    to: DATE_PATTERN.test(to) ? to : "",
+    search: searchParams.get("q")?.trim() ?? "",
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const { page, ...filters } = parseFilters(new URL(request.url).searchParams);
+  await failAbandonedUploadJobs(session.shop);
+  const { jobs, count } = await getUploadJobs(session.shop, filters, page);
+
+  return {
+    jobs: jobs.map((job) => ({
+      id: job.id,
+      userEmail: job.userEmail,
+      status: job.status,
+      background: job.background,
+      total: job.total,
+      succeeded: job.succeeded,
+      failed: job.failed,
+      createdAt: job.createdAt.toISOString(),
+      undone: !!job.undoneAt,
+    })),
+    filters,
+    page,
+    pageCount: Math.max(1, Math.ceil(count / UPLOAD_JOBS_PAGE_SIZE)),
+  };
+};
+
+export default function UploadHistory() {
+  const { jobs, filters, page, pageCount } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const [draft, setDraft] = useState(filters);
+
+  // Keep the embedded app's own parameters (host, shop, …) when rewriting filters
+  const applyFilters = (next: UploadJobFilters, nextPage = 1) => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      const values: Record<string, string | undefined> = {
+        status: next.status,
+        from: next.from,
+        to: next.to,
+        q: next.search,
+        page: nextPage > 1 ? String(nextPage) : "",
+      };
+      for (const [key, value] of Object.entries(values)) {
+        if (value) params.set(key, value);
+        else params.delete(key);
+      }
+      return params;
+    });
+  };
+
+  const emptyFilters: UploadJobFilters = { status: "", from: "", to: "", search: "" };
+
+  return (
+    <s-page heading="Upload history">
+      <s-section heading="Filters">
+        <s-stack direction="block" gap="base">
+          <s-grid gridTemplateColumns="repeat(4, 1fr)" gap="base">
+            <s-select
+              label="Status"
+              value={draft.status}
+              onChange={(e) => setDraft((prev) => ({ ...prev, status: e.currentTarget.value }))}
+            >
+              {JOB_STATUSES.map((status) => (
+                <s-option key={status.value} value={status.value}>
+                  {status.label}
+                </s-option>
+              ))}
+            </s-select>
+            <s-date-field
+              label="From"
+              value={draft.from}
+              onChange={(e) => setDraft((prev) => ({ ...prev, from: e.currentTarget.value }))}
+            />
+            <s-date-field
+              label="To"
+              value={draft.to}
+              onChange={(e) => setDraft((prev) => ({ ...prev, to: e.currentTarget.value }))}
+            />
+            <s-text-field
+              label="Search"
+              placeholder="File name, product title or ID"
+              value={draft.search}
+              onChange={(e) => setDraft((prev) => ({ ...prev, search: e.currentTarget.value }))}
+            />
+          </s-grid>
+          <s-stack direction="inline" gap="base">
+            <s-button variant="secondary" onClick={() => applyFilters(draft)}>
+              Apply
+            </s-button>
+            <s-button
+              variant="tertiary"
+              onClick={() => {
+                setDraft(emptyFilters);
+                applyFilters(emptyFilters);
+              }}
+            >
+              Reset
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Jobs">
+        {jobs.length === 0 ? (
+          <s-paragraph>No upload jobs match these filters.</s-paragraph>
+        ) : (
+          <s-table
+            paginate={pageCount > 1}
+            hasPreviousPage={page > 1}
+            hasNextPage={page < pageCount}
+            onPreviousPage={() => applyFilters(filters, page - 1)}
+            onNextPage={() => applyFilters(filters, page + 1)}
+          >
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Started</s-table-header>
+              <s-table-header>User</s-table-header>
+              <s-table-header listSlot="secondary">Status</s-table-header>
+              <s-table-header format="numeric">Images</s-table-header>
+              <s-table-header format="numeric">Succeeded</s-table-header>
+              <s-table-header format="numeric">Failed</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {jobs.map((job) => (
+                <s-table-row key={job.id} clickDelegate={`job-${job.id}`}>
+                  <s-table-cell>
+                    <s-link id={`job-${job.id}`} href={`/app/history/${job.id}`}>
+                      {new Date(job.createdAt).toLocaleString()}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>{job.userEmail || "—"}</s-table-cell>
+                  <s-table-cell>
+                    <s-stack direction="inline" gap="small-200">
+                      <JobStatusBadge status={job.status} />
+                      {job.background && <s-badge>On server</s-badge>}
+                      {job.undone && <s-badge tone="neutral">Undone</s-badge>}
+                    </s-stack>
+                  </s-table-cell>
+                  <s-table-cell>{job.total}</s-table-cell>
+                  <s-table-cell>{job.succeeded}</s-table-cell>
+                  <s-table-cell>{job.failed}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings, saveFilenameRules } from "../models/ShopSettings.server";
+import { explainFilenameRules, validateCapturePattern } from "../lib/filenameRules";
+import type { FilenameRules, SeparatorMapping } from "../lib/filenameRules";
+import { getHandleCandidates, SUPPORTED_EXTENSIONS } from "../lib/matching";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return getShopSettings(session.shop);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "save-filename-rules") {
+    const rules: FilenameRules = JSON.parse(formData.get("rules") as string);
+    const patternError = validateCapturePattern(rules.capturePattern);
+    if (patternError) {
+      return { success: false, error: `Capture pattern: ${patternError}` };
+    }
+    await saveFilenameRules(session.shop, rules);
+    return { success: true };
+  }
+
+  return { success: false, error: "Invalid intent" };
+};
+
+/**
+ * Split a comma-separated list into its entries
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export default function Settings() {
+  const { filenameRules } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+  const isSaving = fetcher.state !== "idle";
+
+  // Lists are edited as text, so typing a comma doesn't lose the entry being written
+  const [prefixes, setPrefixes] = useState(filenameRules.stripPrefixes.join(", "));
+  const [suffixes, setSuffixes] = useState(filenameRules.stripSuffixes.join(", "));
+  const [separators, setSeparators] = useState<SeparatorMapping[]>(filenameRules.separators);
+  const [capturePattern, setCapturePattern] = useState(filenameRules.capturePattern);
+  const [lowercase, setLowercase] = useState(filenameRules.lowercase);
+  const [sample, setSample] = useState("");
+
+  const rules: FilenameRules = useMemo(
+    () => ({
+      stripPrefixes: parseList(prefixes),
+      stripSuffixes: parseList(suffixes),
+      separators: separators.filter((s) => s.from !== ""),
+      capturePattern: capturePattern.trim(),
+      lowercase,
+    }),
+    [prefixes, suffixes, separators, capturePattern, lowercase]
+  );
+  const patternError = validateCapturePattern(rules.capturePattern);
+
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      shopify.toast.show("Filename rules saved");
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleSeparatorChange = (index: number, change: Partial<SeparatorMapping>) => {
+    setSeparators((prev) => prev.map((s, i) => (i === index ? { ...s, ...change } : s)));
+  };
+
+  const handleSave = () => {
+    fetcher.submit(
+      { intent: "save-filename-rules", rules: JSON.stringify(rules) },
+      { method: "POST" }
+    );
+  };
+
+  // Show how the sample resolves: each rule that changed it, then the keys matching tries
+  const sampleName = sample.trim();
+  const extensionPattern = new RegExp(`(${SUPPORTED_EXTENSIONS.join("|")})$`, "i");
+  const steps = sampleName ? explainFilenameRules(sampleName.replace(extensionPattern, ""), rules) : [];
+  const candidates = sampleName && !patternError ? getHandleCandidates(sampleName, rules) : [];
+
+  return (
+    <s-page heading="Settings">
+      <s-section heading="Filename rules">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            These rules clean up file and folder names before they are matched to products. They
+            run in this order: prefixes, suffixes, capture pattern, separators, then lowercase.
+          </s-paragraph>
+          <s-grid gridTemplateColumns="repeat(2, 1fr)" gap="base">
+            <s-text-field
+              label="Strip prefixes"
+              details="Comma-separated, ignoring case, e.g. IMG_, DSC_"
+              value={prefixes}
+              onChange={(e) => setPrefixes(e.currentTarget.value)}
+            />
+            <s-text-field
+              label="Strip suffixes"
+              details="Comma-separated, ignoring case, e.g. _web, -final"
+              value={suffixes}
+              onChange={(e) => setSuffixes(e.currentTarget.value)}
+            />
+          </s-grid>
+          <s-text-field
+            label="Capture pattern"
+            details="A regular expression; its first group, or the whole match, is kept. Names it doesn't match are left as they are."
+            placeholder="^\d+-(.+)$"
+            value={capturePattern}
+            error={patternError ?? undefined}
+            onChange={(e) => setCapturePattern(e.currentTarget.value)}
+          />
+          <s-stack direction="block" gap="small-200">
+            <s-text>Separators</s-text>
+            {separators.length === 0 && (
+              <s-text color="subdued">Separators are left as they are.</s-text>
+            )}
+            {separators.map((separator, index) => (
+              <s-stack key={index} direction="inline" gap="base" alignItems="end">
+                <s-text-field
+                  label="Replace"
+                  value={separator.from}
+                  onChange={(e) => handleSeparatorChange(index, { from: e.currentTarget.value })}
+                />
+                <s-text-field
+                  label="With"
+                  details="Leave empty to remove it"
+                  value={separator.to}
+                  onChange={(e) => handleSeparatorChange(index, { to: e.currentTarget.value })}
+                />
+                <s-button
+                  variant="tertiary"
+                  onClick={() => setSeparators((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+            <s-button
+              variant="secondary"
+              onClick={() => setSeparators((prev) => [...prev, { from: "_", to: "-" }])}
+            >
+              Add separator
+            </s-button>
+          </s-stack>
+          <s-checkbox
+            label="Lowercase names"
+            details="Handles, SKUs and barcodes are compared without case either way"
+            checked={lowercase}
+            onChange={(e) => setLowercase(e.currentTarget.checked)}
+          />
+          <s-stack direction="inline" gap="base">
+            <s-button
+              variant="primary"
+              onClick={handleSave}
+              disabled={!!patternError || isSaving}
+              {...(isSaving ? { loading: true } : {})}
+            >
+              Save rules
+            </s-button>
+          </s-stack>
+          {fetcher.data?.error && !isSaving && (
+            <s-banner tone="critical">{fetcher.data.error}</s-banner>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Try a filename">
+        <s-stack direction="block" gap="base">
+          <s-text-field
+            label="Sample filename"
+            placeholder="IMG_Blue_Widget__Red_2_web.jpg"
+            value={sample}
+            onChange={(e) => setSample(e.currentTarget.value)}
+          />
+          {sampleName && (
+            <>
+              {steps.length === 0 ? (
+                <s-text color="subdued">No rule changes this name.</s-text>
+              ) : (
+                <s-ordered-list>
+                  {steps.map((step, index) => (
+                    <s-list-item key={index}>
+                      {step.rule}: {step.value}
+                    </s-list-item>
+                  ))}
+                </s-ordered-list>
+              )}
+              {candidates.length > 0 && (
+                <s-stack direction="block" gap="small-200">
+                  <s-text>Matched against products as, in order:</s-text>
+                  <s-unordered-list>
+                    {candidates.map((candidate, index) => (
+                      <s-list-item key={index}>
+                        {candidate.handle}
+                        {candidate.position !== null && `, position ${candidate.position}`}
+                        {candidate.variantTokens.length > 0 &&
+                          `, variant ${candidate.variantTokens.join(" / ")}`}
+                      </s-list-item>
+                    ))}
+                  </s-unordered-list>
+                </s-stack>
+              )}
+            </>
+          )}
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "UploadJob" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "userId" TEXT,
+    "userEmail" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "UploadJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UploadItem" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "mediaId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UploadItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadJob_shop_createdAt_idx" ON "UploadJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UploadItem_jobId_status_idx" ON "UploadItem"("jobId", "status");
+
+-- AddForeignKey
+ALTER TABLE "UploadItem" ADD CONSTRAINT "UploadItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "UploadJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "UploadJob" ADD COLUMN     "background" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "UploadItem" ADD COLUMN     "alt" TEXT,
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sourceUrl" TEXT,
+ADD COLUMN     "stagedPath" TEXT,
+ADD COLUMN     "variantIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "UploadItem_status_updatedAt_idx" ON "UploadItem"("status", "updatedAt");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "UploadJob" ADD COLUMN     "mediaPolicy" TEXT NOT NULL DEFAULT 'append';
+
+-- AlterTable
+ALTER TABLE "UploadItem" ADD COLUMN     "position" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ReplacedMedia" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "url" TEXT,
+    "alt" TEXT,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReplacedMedia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReplacedMedia_jobId_idx" ON "ReplacedMedia"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "ReplacedMedia" ADD CONSTRAINT "ReplacedMedia_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "UploadJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UploadItem" ADD COLUMN     "contentHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "UploadItem_productId_contentHash_idx" ON "UploadItem"("productId", "contentHash");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UploadJob" ADD COLUMN     "undoneAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ReplacedMedia" ADD COLUMN     "restoredMediaId" TEXT;
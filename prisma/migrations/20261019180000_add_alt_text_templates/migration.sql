@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "UploadItem" ADD COLUMN     "altTranslations" JSONB;
+
+-- CreateTable
+CREATE TABLE "AltTextTemplate" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "locale" TEXT NOT NULL DEFAULT '',
+    "template" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AltTextTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AltTextTemplate_shop_locale_key" ON "AltTextTemplate"("shop", "locale");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "UploadJob" ADD COLUMN     "publishRules" JSONB;
+
+-- CreateTable
+CREATE TABLE "ProductStatusChange" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "publications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductStatusChange_jobId_idx" ON "ProductStatusChange"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "ProductStatusChange" ADD CONSTRAINT "ProductStatusChange_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "UploadJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
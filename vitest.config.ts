@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests cover the pure modules in app/lib, so they run without the React Router plugin
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});